@@ -6,13 +6,39 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { RefreshCw, ArrowLeft, ArrowRight, Home, Upload } from "lucide-react";
+import { RefreshCw, ArrowLeft, ArrowRight, Home, Upload, Plus, X, Maximize2, Download, ClipboardCopy } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import type { BrowserSession } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DownloadsPanel } from "./DownloadsPanel";
+import type {
+  BrowserSession,
+  BrowserTab,
+  PendingDialog,
+  PendingFileChooser,
+  SessionDownload,
+  ViewerKeyEvent,
+  ViewerMouseEvent,
+} from "@shared/schema";
+
+const DIALOG_TITLES: Record<PendingDialog["type"], string> = {
+  alert: "Alert",
+  confirm: "Confirm",
+  prompt: "Prompt",
+  beforeunload: "Leave Page?",
+};
 
 interface BrowserViewerProps {
   open: boolean;
@@ -26,12 +52,19 @@ export function BrowserViewer({ open, onOpenChange, session }: BrowserViewerProp
   const [urlInput, setUrlInput] = useState(session.url);
   const [isLoading, setIsLoading] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [uploadSelector, setUploadSelector] = useState("");
+  const [tabs, setTabs] = useState<BrowserTab[]>([]);
+  const [pendingDialogs, setPendingDialogs] = useState<PendingDialog[]>([]);
+  const [promptText, setPromptText] = useState("");
+  const [showDownloads, setShowDownloads] = useState(false);
+  const [fileChooser, setFileChooser] = useState<PendingFileChooser | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const chooserInputRef = useRef<HTMLInputElement>(null);
   const dialogContentRef = useRef<HTMLDivElement>(null);
 
   // Determine WebSocket URL based on environment
@@ -60,6 +93,8 @@ export function BrowserViewer({ open, onOpenChange, session }: BrowserViewerProp
       ws.onopen = () => {
         console.log('WebSocket connected');
         setIsConnected(true);
+        setPendingDialogs([]); // The server resends any still open
+        setFileChooser(null);
         retryCount = 0; // Reset retry count on successful connection
       };
 
@@ -73,11 +108,61 @@ export function BrowserViewer({ open, onOpenChange, session }: BrowserViewerProp
 
             const img = new Image();
             img.onload = () => {
-              canvas.width = session.viewportWidth || 1920;
-              canvas.height = session.viewportHeight || 1080;
+              // Frames report their own size, which changes on a live resize
+              canvas.width = Math.round(message.metadata?.deviceWidth || session.viewportWidth || 1920);
+              canvas.height = Math.round(message.metadata?.deviceHeight || session.viewportHeight || 1080);
               ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
             };
             img.src = `data:image/jpeg;base64,${message.data}`;
+          } else if (message.type === 'tabs') {
+            const nextTabs: BrowserTab[] = message.tabs;
+            setTabs(nextTabs);
+            const activeTab = nextTabs.find((tab) => tab.active);
+            if (activeTab) {
+              setCurrentUrl(activeTab.url);
+              setUrlInput(activeTab.url);
+            }
+          } else if (message.type === 'dialog') {
+            const dialog: PendingDialog = message.dialog;
+            setPendingDialogs((prev) => [...prev.filter((d) => d.id !== dialog.id), dialog]);
+          } else if (message.type === 'dialogClosed') {
+            setPendingDialogs((prev) => prev.filter((d) => d.id !== message.id));
+          } else if (message.type === 'clipboard') {
+            // Reply to a copy: the page's selection, for the local clipboard
+            if (message.text) {
+              navigator.clipboard.writeText(message.text).catch((error) => {
+                console.error('Error writing to clipboard:', error);
+              });
+            }
+          } else if (message.type === 'fileChooser') {
+            setFileChooser(message.chooser);
+          } else if (message.type === 'fileChooserClosed') {
+            setFileChooser((prev) => (prev?.id === message.id ? null : prev));
+          } else if (message.type === 'download') {
+            const download: SessionDownload = message.download;
+            const downloadsKey = ["/api/sessions", session.id, "downloads"];
+            const known = queryClient.getQueryData<SessionDownload[]>(downloadsKey);
+            if (known) {
+              queryClient.setQueryData<SessionDownload[]>(
+                downloadsKey,
+                [download, ...known.filter((d) => d.id !== download.id)].sort(
+                  (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+                )
+              );
+            } else {
+              // Seeding the list with one download would hide the earlier ones, so fetch it whole
+              queryClient.invalidateQueries({ queryKey: downloadsKey });
+            }
+            // Open the panel when a new download starts, but leave it closed if the user hid it
+            if (!known?.some((d) => d.id === download.id)) {
+              setShowDownloads(true);
+            }
+            if (download.state === 'completed') {
+              toast({
+                title: "Download Complete",
+                description: download.fileName,
+              });
+            }
           }
         } catch (error) {
           console.error('Error handling WebSocket message:', error);
@@ -120,7 +205,7 @@ export function BrowserViewer({ open, onOpenChange, session }: BrowserViewerProp
         wsRef.current = null;
       }
     };
-  }, [open, session.status, session.id, session.viewportWidth, session.viewportHeight, wsUrl, toast]);
+  }, [open, session.status, session.id, wsUrl, toast]);
 
   const handleNavigate = async (url?: string) => {
     const targetUrl = url || urlInput;
@@ -152,210 +237,240 @@ export function BrowserViewer({ open, onOpenChange, session }: BrowserViewerProp
     }
   };
 
-  const sendMouseEvent = (eventType: string, x: number, y: number, button: string = 'left') => {
-    console.log(`Frontend sending mouse event: ${eventType} at (${x}, ${y}), WS state: ${wsRef.current?.readyState}`);
+  // The remote browser runs on Linux, so a Mac's Cmd acts as Ctrl there (Cmd+A, Cmd+click)
+  const isMac = /Mac|iPhone|iPad/.test(navigator.platform);
+
+  // CDP modifier bits: Alt 1, Ctrl 2, Meta 4, Shift 8
+  const getModifiers = (e: { altKey: boolean; ctrlKey: boolean; metaKey: boolean; shiftKey: boolean }) =>
+    (e.altKey ? 1 : 0) |
+    (e.ctrlKey || (isMac && e.metaKey) ? 2 : 0) |
+    (e.metaKey && !isMac ? 4 : 0) |
+    (e.shiftKey ? 8 : 0);
+
+  // MouseEvent.button order, as CDP names them
+  const MOUSE_BUTTONS = ['left', 'middle', 'right', 'back', 'forward'] as const;
+
+  const toViewportPoint = (e: { clientX: number; clientY: number }) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const sendMouseEvent = (event: Omit<ViewerMouseEvent, 'modifiers' | 'deltaX' | 'deltaY'> & Partial<ViewerMouseEvent>) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      const payload = {
-        type: 'mouseEvent',
-        eventType,
-        x,
-        y,
-        button,
-      };
-      console.log('Sending payload:', payload);
-      wsRef.current.send(JSON.stringify(payload));
-    } else {
-      console.error('WebSocket not open, cannot send mouse event');
+      wsRef.current.send(JSON.stringify({ type: 'mouseEvent', ...event }));
     }
   };
 
-  const sendKeyEvent = (eventType: string, key: string, text?: string) => {
+  const sendKeyEvent = (event: Omit<ViewerKeyEvent, 'code' | 'keyCode' | 'location' | 'modifiers' | 'autoRepeat'> & Partial<ViewerKeyEvent>) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
-        type: 'keyEvent',
-        eventType,
-        key,
-        text,
-      }));
+      wsRef.current.send(JSON.stringify({ type: 'keyEvent', ...event }));
     }
   };
 
   const sendTextCharacters = (textToSend: string) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      // Send the entire text at once instead of character by character
-      for (const char of textToSend) {
-        wsRef.current.send(JSON.stringify({
-          type: 'keyEvent',
-          eventType: 'keyDown',
-          key: char,
-          text: char,
-        }));
-      }
+    for (const char of textToSend) {
+      sendKeyEvent({ eventType: 'keyDown', key: char, text: char });
+      sendKeyEvent({ eventType: 'keyUp', key: char });
     }
   };
 
-  const sendScrollEvent = (deltaX: number, deltaY: number) => {
+  // Sessions emulating a touch device get real touch events instead of mouse events
+  const isTouchSession = !!session.deviceEmulation?.hasTouch;
+
+  const toViewportPoints = (touches: React.TouchList) =>
+    Array.from(touches).map((touch) => ({ ...toViewportPoint(touch), id: touch.identifier }));
+
+  const sendTouchEvent = (eventType: string, touchPoints: { x: number; y: number; id?: number }[]) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify({
-        type: 'scroll',
-        deltaX,
-        deltaY,
+        type: 'touchEvent',
+        eventType,
+        touchPoints,
       }));
     }
   };
 
+  // A click on a touch session is a tap; mouse sessions get presses and releases instead
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    console.log('Canvas clicked!', { isConnected, hasCanvas: !!canvasRef.current });
-    if (!canvasRef.current || !isConnected) {
-      console.warn('Cannot process click - canvas or connection not ready');
-      return;
-    }
+    if (!canvasRef.current || !isConnected || !isTouchSession) return;
 
-    const canvas = canvasRef.current;
-    const rect = canvas.getBoundingClientRect();
-    
-    // Get the actual canvas dimensions
-    const canvasWidth = canvas.width;
-    const canvasHeight = canvas.height;
-    
-    // Calculate click position relative to canvas
-    const clickX = e.clientX - rect.left;
-    const clickY = e.clientY - rect.top;
-    
-    // Scale to actual browser viewport coordinates
-    const x = (clickX / rect.width) * canvasWidth;
-    const y = (clickY / rect.height) * canvasHeight;
-
-    console.log(`Click: canvas=${rect.width}x${rect.height}, viewport=${canvasWidth}x${canvasHeight}, click=(${clickX}, ${clickY}), scaled=(${x}, ${y})`);
-    
-    // Send triple click for better input field activation
-    sendMouseEvent('mousePressed', x, y);
-    setTimeout(() => {
-      sendMouseEvent('mouseReleased', x, y);
-      // Second click to ensure focus
-      setTimeout(() => {
-        sendMouseEvent('mousePressed', x, y);
-        setTimeout(() => {
-          sendMouseEvent('mouseReleased', x, y);
-        }, 50);
-      }, 50);
-    }, 50);
-    
+    const { x, y } = toViewportPoint(e);
+    sendTouchEvent('touchStart', [{ x, y, id: 0 }]);
+    setTimeout(() => sendTouchEvent('touchEnd', []), 50);
+    dialogContentRef.current?.focus();
+  };
+
+  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!canvasRef.current || !isConnected || isTouchSession) return;
+    e.preventDefault();
     dialogContentRef.current?.focus();
+
+    sendMouseEvent({
+      eventType: 'mousePressed',
+      ...toViewportPoint(e),
+      button: MOUSE_BUTTONS[e.button] ?? 'left',
+      buttons: e.buttons,
+      // The local browser counts double and triple clicks for us
+      clickCount: e.detail || 1,
+      modifiers: getModifiers(e),
+    });
+  };
+
+  const handleCanvasMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!canvasRef.current || !isConnected || isTouchSession) return;
+    e.preventDefault();
+
+    sendMouseEvent({
+      eventType: 'mouseReleased',
+      ...toViewportPoint(e),
+      button: MOUSE_BUTTONS[e.button] ?? 'left',
+      buttons: e.buttons,
+      clickCount: e.detail || 1,
+      modifiers: getModifiers(e),
+    });
   };
 
   const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!canvasRef.current || !isConnected) return;
+    if (!canvasRef.current || !isConnected || isTouchSession) return;
 
-    const canvas = canvasRef.current;
-    const rect = canvas.getBoundingClientRect();
-    
-    const clickX = e.clientX - rect.left;
-    const clickY = e.clientY - rect.top;
-    
-    const x = (clickX / rect.width) * canvas.width;
-    const y = (clickY / rect.height) * canvas.height;
-
-    sendMouseEvent('mouseMoved', x, y);
+    // Moves with a button held are drags, reported against that button
+    const held = MOUSE_BUTTONS.find((_, index) => e.buttons & [1, 4, 2, 8, 16][index]);
+    sendMouseEvent({
+      eventType: 'mouseMoved',
+      ...toViewportPoint(e),
+      button: held ?? 'none',
+      buttons: e.buttons,
+      clickCount: 0,
+      modifiers: getModifiers(e),
+    });
   };
 
   const handleCanvasWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
     e.preventDefault();
-    sendScrollEvent(e.deltaX, e.deltaY);
+    if (!canvasRef.current || !isConnected) return;
+
+    // Line and page deltas (Firefox, some mice) become pixels
+    const scale = e.deltaMode === 1 ? 40 : e.deltaMode === 2 ? canvasRef.current.height : 1;
+    sendMouseEvent({
+      eventType: 'mouseWheel',
+      ...toViewportPoint(e),
+      button: 'none',
+      buttons: e.buttons,
+      clickCount: 0,
+      modifiers: getModifiers(e),
+      deltaX: e.deltaX * scale,
+      deltaY: e.deltaY * scale,
+    });
   };
 
   const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
     e.preventDefault();
     if (!canvasRef.current || !isConnected) return;
 
-    const canvas = canvasRef.current;
-    const touch = e.touches[0];
-    const rect = canvas.getBoundingClientRect();
-    
-    const touchX = touch.clientX - rect.left;
-    const touchY = touch.clientY - rect.top;
-    
-    const x = (touchX / rect.width) * canvas.width;
-    const y = (touchY / rect.height) * canvas.height;
-
-    console.log(`Touch start at: (${x}, ${y})`);
-    sendMouseEvent('mousePressed', x, y);
+    if (isTouchSession) {
+      sendTouchEvent('touchStart', toViewportPoints(e.touches));
+      return;
+    }
+
+    // A finger on a mouse session drives the left button
+    dialogContentRef.current?.focus();
+    sendMouseEvent({
+      eventType: 'mousePressed',
+      ...toViewportPoint(e.touches[0]),
+      button: 'left',
+      buttons: 1,
+      clickCount: 1,
+    });
   };
 
   const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
     e.preventDefault();
     if (!canvasRef.current || !isConnected) return;
 
-    const canvas = canvasRef.current;
-    const touch = e.changedTouches[0];
-    const rect = canvas.getBoundingClientRect();
-    
-    const touchX = touch.clientX - rect.left;
-    const touchY = touch.clientY - rect.top;
-    
-    const x = (touchX / rect.width) * canvas.width;
-    const y = (touchY / rect.height) * canvas.height;
-
-    console.log(`Touch end at: (${x}, ${y})`);
-    sendMouseEvent('mouseReleased', x, y);
-    
-    // Send an additional click to ensure input fields get focus (important for mobile keyboards)
-    setTimeout(() => {
-      sendMouseEvent('mousePressed', x, y);
-      setTimeout(() => {
-        sendMouseEvent('mouseReleased', x, y);
-      }, 50);
-    }, 100);
+    if (isTouchSession) {
+      // Lifting one finger of several is a move for the fingers still down
+      if (e.touches.length > 0) {
+        sendTouchEvent('touchMove', toViewportPoints(e.touches));
+      } else {
+        sendTouchEvent('touchEnd', []);
+      }
+      return;
+    }
+
+    sendMouseEvent({
+      eventType: 'mouseReleased',
+      ...toViewportPoint(e.changedTouches[0]),
+      button: 'left',
+      buttons: 0,
+      clickCount: 1,
+    });
   };
 
   const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
     e.preventDefault();
     if (!canvasRef.current || !isConnected) return;
 
-    const canvas = canvasRef.current;
-    const touch = e.touches[0];
-    const rect = canvas.getBoundingClientRect();
-    
-    const touchX = touch.clientX - rect.left;
-    const touchY = touch.clientY - rect.top;
-    
-    const x = (touchX / rect.width) * canvas.width;
-    const y = (touchY / rect.height) * canvas.height;
-
-    sendMouseEvent('mouseMoved', x, y);
+    if (isTouchSession) {
+      sendTouchEvent('touchMove', toViewportPoints(e.touches));
+      return;
+    }
+
+    sendMouseEvent({
+      eventType: 'mouseMoved',
+      ...toViewportPoint(e.touches[0]),
+      button: 'left',
+      buttons: 1,
+      clickCount: 0,
+    });
+  };
+
+  // Ctrl/Cmd+C and Ctrl/Cmd+V, which sync the clipboard instead of reaching the page when allowed
+  const isClipboardShortcut = (e: React.KeyboardEvent) =>
+    session.clipboardSync && (e.ctrlKey || e.metaKey) && !e.altKey && ['c', 'v'].includes(e.key.toLowerCase());
+
+  const toKeyEvent = (eventType: 'keyDown' | 'keyUp', e: React.KeyboardEvent) => {
+    const modifiers = getModifiers(e);
+    // Shortcuts type nothing (AltGr, reported as Ctrl+Alt, still does); Enter types a carriage return
+    const typesText = eventType === 'keyDown' && (!(modifiers & (2 | 4)) || e.getModifierState('AltGraph'));
+    const text = !typesText ? undefined : e.key.length === 1 ? e.key : e.key === 'Enter' ? '\r' : undefined;
+    return {
+      eventType,
+      key: e.key,
+      code: e.code,
+      text,
+      keyCode: e.keyCode,
+      location: e.location,
+      modifiers,
+      autoRepeat: e.repeat,
+    };
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    e.preventDefault();
+    if (isClipboardShortcut(e)) {
+      if (e.key.toLowerCase() === 'c' && wsRef.current?.readyState === WebSocket.OPEN) {
+        e.preventDefault();
+        wsRef.current.send(JSON.stringify({ type: 'copy' }));
+      }
+      // Ctrl/Cmd+V is left alone so the browser fires a paste event with the local clipboard
+      return;
+    }
 
-    let key = e.key;
-    if (key === ' ') key = 'Space';
-    else if (key === 'Enter') key = 'Enter';
-    else if (key === 'Backspace') key = 'Backspace';
-    else if (key === 'Tab') key = 'Tab';
-    else if (key === 'Escape') key = 'Escape';
-    else if (key === 'ArrowUp') key = 'ArrowUp';
-    else if (key === 'ArrowDown') key = 'ArrowDown';
-    else if (key === 'ArrowLeft') key = 'ArrowLeft';
-    else if (key === 'ArrowRight') key = 'ArrowRight';
-
-    const text = e.key.length === 1 ? e.key : undefined;
-    sendKeyEvent('keyDown', key, text);
+    e.preventDefault();
+    sendKeyEvent(toKeyEvent('keyDown', e));
   };
 
   const handleKeyUp = (e: React.KeyboardEvent) => {
+    if (isClipboardShortcut(e)) return;
     e.preventDefault();
-
-    let key = e.key;
-    if (key === ' ') key = 'Space';
-    else if (key === 'Enter') key = 'Enter';
-    else if (key === 'Backspace') key = 'Backspace';
-
-    sendKeyEvent('keyUp', key);
+    sendKeyEvent(toKeyEvent('keyUp', e));
   };
 
   const handleFileUpload = async () => {
-    if (!selectedFile) {
+    if (selectedFiles.length === 0) {
       toast({
         title: "No File Selected",
         description: "Please select a file to upload",
@@ -365,17 +480,20 @@ export function BrowserViewer({ open, onOpenChange, session }: BrowserViewerProp
     }
 
     const formData = new FormData();
-    formData.append('file', selectedFile);
+    selectedFiles.forEach((file) => formData.append('file', file));
+    if (uploadSelector.trim()) {
+      formData.append('selector', uploadSelector.trim());
+    }
 
     try {
       await apiRequest("POST", `/api/sessions/${session.id}/upload`, formData);
 
       toast({
         title: "Success",
-        description: "File uploaded successfully",
+        description: selectedFiles.length === 1 ? "File uploaded successfully" : `${selectedFiles.length} files uploaded`,
       });
 
-      setSelectedFile(null);
+      setSelectedFiles([]);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
@@ -388,6 +506,135 @@ export function BrowserViewer({ open, onOpenChange, session }: BrowserViewerProp
     }
   };
 
+  // Answer the page's file chooser with files picked on this machine
+  const handleChooserFiles = async (files: FileList | null) => {
+    if (!fileChooser || !files || files.length === 0) return;
+
+    const formData = new FormData();
+    Array.from(files).forEach((file) => formData.append('file', file));
+    try {
+      await apiRequest("POST", `/api/sessions/${session.id}/file-chooser/${fileChooser.id}`, formData);
+      setFileChooser(null);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload file",
+        variant: "destructive",
+      });
+    } finally {
+      if (chooserInputRef.current) {
+        chooserInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleChooserCancel = async () => {
+    if (!fileChooser) return;
+    const chooserId = fileChooser.id;
+    setFileChooser(null);
+    try {
+      await apiRequest("DELETE", `/api/sessions/${session.id}/file-chooser/${chooserId}`);
+    } catch (error: any) {
+      console.error('Error canceling file chooser:', error);
+    }
+  };
+
+  // Tab changes come back over the WebSocket as a fresh tab list
+  const handleNewTab = async () => {
+    try {
+      await apiRequest("POST", `/api/sessions/${session.id}/tabs`);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open tab",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleActivateTab = async (tab: BrowserTab) => {
+    if (tab.active) return;
+    try {
+      await apiRequest("POST", `/api/sessions/${session.id}/tabs/${tab.id}/activate`);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to switch tab",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCloseTab = async (tab: BrowserTab) => {
+    try {
+      await apiRequest("DELETE", `/api/sessions/${session.id}/tabs/${tab.id}`);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to close tab",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getTabLabel = (tab: BrowserTab) => {
+    if (tab.title) return tab.title;
+    try {
+      return new URL(tab.url).hostname || tab.url;
+    } catch {
+      return tab.url || "New Tab";
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    // The URL bar and text box paste locally as usual
+    if (!session.clipboardSync || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+      return;
+    }
+
+    e.preventDefault();
+    const text = e.clipboardData.getData('text/plain');
+    if (text && wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'paste', text }));
+    }
+  };
+
+  const handleToggleClipboardSync = async () => {
+    try {
+      await apiRequest("PATCH", `/api/sessions/${session.id}`, { clipboardSync: !session.clipboardSync });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change clipboard sync",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Resize the remote viewport to the space available in the viewer
+  const handleFitToWindow = async () => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    try {
+      setIsLoading(true);
+      await apiRequest("PATCH", `/api/sessions/${session.id}`, {
+        viewportWidth: Math.min(4096, Math.max(200, Math.floor(container.clientWidth))),
+        viewportHeight: Math.min(4096, Math.max(200, Math.floor(container.clientHeight))),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resize viewport",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleGoBack = async () => {
     try {
       await apiRequest("POST", `/api/sessions/${session.id}/back`);
@@ -434,204 +681,386 @@ export function BrowserViewer({ open, onOpenChange, session }: BrowserViewerProp
     }
   }, [open, isConnected]);
 
+  // Page dialogs are answered one at a time, oldest first
+  const activeDialog = pendingDialogs[0];
+
+  useEffect(() => {
+    setPromptText(activeDialog?.defaultValue ?? "");
+  }, [activeDialog?.id]);
+
+  const answerDialog = (accept: boolean) => {
+    if (!activeDialog) return;
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({
+        type: 'dialogResponse',
+        dialogId: activeDialog.id,
+        accept,
+        promptText: activeDialog.type === 'prompt' ? promptText : undefined,
+      }));
+    }
+    setPendingDialogs((prev) => prev.filter((d) => d.id !== activeDialog.id));
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent
-        ref={dialogContentRef}
-        className="max-w-full w-full h-full max-h-full flex flex-col p-0 focus:outline-none m-0 sm:max-w-[95vw] sm:h-[95vh] sm:m-6"
-        data-testid="browser-viewer-dialog"
-        onKeyDown={handleKeyDown}
-        onKeyUp={handleKeyUp}
-        tabIndex={0}
-      >
-        <DialogHeader className="px-2 sm:px-6 pt-2 sm:pt-6 pb-2 sm:pb-4">
-          <DialogTitle className="text-lg sm:text-2xl font-semibold">Live Browser Session</DialogTitle>
-          <DialogDescription className="text-xs sm:text-sm">
-            Interact with the browser in real-time - click, type, scroll, and navigate
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="flex-1 flex flex-col px-2 sm:px-6 pb-2 sm:pb-6 gap-2 sm:gap-4 overflow-hidden">
-          <div className="flex items-center gap-1 sm:gap-2 flex-wrap">
-            <Button
-              size="icon"
-              variant="outline"
-              onClick={handleGoBack}
-              disabled={!isConnected}
-              data-testid="button-back"
-              title="Go Back"
-            >
-              <ArrowLeft className="w-4 h-4" />
-            </Button>
-            <Button
-              size="icon"
-              variant="outline"
-              onClick={handleGoForward}
-              disabled={!isConnected}
-              data-testid="button-forward"
-              title="Go Forward"
-            >
-              <ArrowRight className="w-4 h-4" />
-            </Button>
-            <Button
-              size="icon"
-              variant="outline"
-              onClick={handleRefresh}
-              disabled={!isConnected}
-              data-testid="button-refresh"
-              title="Refresh"
-            >
-              <RefreshCw className="w-4 h-4" />
-            </Button>
-            <Button
-              size="icon"
-              variant="outline"
-              onClick={() => handleNavigate(session.url)}
-              disabled={!isConnected}
-              data-testid="button-home"
-              title="Home"
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent
+          ref={dialogContentRef}
+          className="max-w-full w-full h-full max-h-full flex flex-col p-0 focus:outline-none m-0 sm:max-w-[95vw] sm:h-[95vh] sm:m-6"
+          data-testid="browser-viewer-dialog"
+          onKeyDown={handleKeyDown}
+          onKeyUp={handleKeyUp}
+          onPaste={handlePaste}
+          tabIndex={0}
+        >
+          <DialogHeader className="px-2 sm:px-6 pt-2 sm:pt-6 pb-2 sm:pb-4">
+            <DialogTitle className="text-lg sm:text-2xl font-semibold">Live Browser Session</DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm">
+              Interact with the browser in real-time - click, type, scroll, and navigate
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 flex flex-col px-2 sm:px-6 pb-2 sm:pb-6 gap-2 sm:gap-4 overflow-hidden">
+            {isConnected && tabs.length > 0 && (
+              <div className="flex items-center gap-1 overflow-x-auto" data-testid="tab-strip">
+                {tabs.map((tab) => (
+                  <div
+                    key={tab.id}
+                    className={`flex items-center gap-1 rounded-md border pl-3 pr-1 h-8 max-w-[200px] shrink-0 cursor-pointer ${
+                      tab.active ? "bg-background" : "bg-muted text-muted-foreground"
+                    }`}
+                    onClick={() => handleActivateTab(tab)}
+                    title={tab.url}
+                    data-testid={`tab-${tab.id}`}
+                  >
+                    <span className="text-xs truncate">{getTabLabel(tab)}</span>
+                    {tabs.length > 1 && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6 shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleCloseTab(tab);
+                        }}
+                        data-testid={`button-close-tab-${tab.id}`}
+                        title="Close Tab"
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  onClick={handleNewTab}
+                  data-testid="button-new-tab"
+                  title="New Tab"
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+
+            <div className="flex items-center gap-1 sm:gap-2 flex-wrap">
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={handleGoBack}
+                disabled={!isConnected}
+                data-testid="button-back"
+                title="Go Back"
+              >
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={handleGoForward}
+                disabled={!isConnected}
+                data-testid="button-forward"
+                title="Go Forward"
+              >
+                <ArrowRight className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={handleRefresh}
+                disabled={!isConnected}
+                data-testid="button-refresh"
+                title="Refresh"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={() => handleNavigate(session.url)}
+                disabled={!isConnected}
+                data-testid="button-home"
+                title="Home"
+              >
+                <Home className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={handleFitToWindow}
+                disabled={isLoading || !isConnected}
+                data-testid="button-fit-window"
+                title="Fit to My Window"
+              >
+                <Maximize2 className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant={session.clipboardSync ? "secondary" : "outline"}
+                onClick={handleToggleClipboardSync}
+                data-testid="button-clipboard-sync"
+                title={session.clipboardSync
+                  ? "Clipboard sync on: Ctrl/Cmd+C and Ctrl/Cmd+V copy and paste with this computer"
+                  : "Clipboard sync off"}
+              >
+                <ClipboardCopy className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant={showDownloads ? "secondary" : "outline"}
+                onClick={() => setShowDownloads((prev) => !prev)}
+                data-testid="button-downloads"
+                title="Downloads"
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+
+              <div className="flex-1 flex items-center gap-1 sm:gap-2 w-full sm:w-auto">
+                <Input
+                  type="text"
+                  value={urlInput}
+                  onChange={(e) => setUrlInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.stopPropagation();
+                      handleNavigate();
+                    }
+                  }}
+                  placeholder="https://example.com"
+                  className="font-mono text-xs sm:text-sm"
+                  disabled={!isConnected}
+                  data-testid="input-url"
+                />
+                <Button
+                  onClick={() => handleNavigate()}
+                  disabled={isLoading || !isConnected}
+                  data-testid="button-navigate"
+                  size="sm"
+                  className="shrink-0"
+                >
+                  Go
+                </Button>
+              </div>
+            </div>
+
+            <div className="hidden sm:flex items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={(e) => setSelectedFiles(Array.from(e.target.files ?? []))}
+                className="flex-1 text-sm"
+                data-testid="input-file"
+              />
+              <Input
+                value={uploadSelector}
+                onChange={(e) => setUploadSelector(e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+                placeholder="File input selector (optional)"
+                className="w-56 font-mono text-xs"
+                title="Without a selector, files go to the page's open file chooser"
+                data-testid="input-upload-selector"
+              />
+              <Button
+                onClick={handleFileUpload}
+                disabled={selectedFiles.length === 0 || !isConnected}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                data-testid="button-upload"
+              >
+                <Upload className="w-4 h-4" />
+                Upload File
+              </Button>
+            </div>
+
+            {showDownloads && <DownloadsPanel sessionId={session.id} />}
+
+            {!isConnected && (
+              <div className="bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 p-3 rounded-md text-sm">
+                {session.status !== "running"
+                  ? "Session is not running. Start the session to view the browser."
+                  : "Connecting to browser stream..."}
+              </div>
+            )}
+
+            <div
+              ref={containerRef}
+              className="flex-1 border rounded-md overflow-auto bg-gray-100 dark:bg-gray-900 relative"
+              style={{ minHeight: 0 }}
             >
-              <Home className="w-4 h-4" />
-            </Button>
+              <canvas
+                ref={canvasRef}
+                onClick={handleCanvasClick}
+                onMouseDown={handleCanvasMouseDown}
+                onMouseUp={handleCanvasMouseUp}
+                onMouseMove={handleCanvasMouseMove}
+                onPointerDown={(e) => e.currentTarget.setPointerCapture(e.pointerId)}
+                onContextMenu={(e) => e.preventDefault()}
+                onWheel={handleCanvasWheel}
+                onTouchStart={handleTouchStart}
+                onTouchEnd={handleTouchEnd}
+                onTouchMove={handleTouchMove}
+                className="cursor-pointer touch-none block"
+                style={{ 
+                  imageRendering: 'auto',
+                  width: 'auto',
+                  height: 'auto',
+                  maxWidth: '100%',
+                  maxHeight: '100%'
+                }}
+                data-testid="canvas-browser"
+              />
+              {!isConnected && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 dark:border-gray-100 mx-auto mb-4"></div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {session.status === "running" ? "Connecting..." : "Session Stopped"}
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
 
-            <div className="flex-1 flex items-center gap-1 sm:gap-2 w-full sm:w-auto">
+            <div className="flex items-center gap-2">
               <Input
                 type="text"
-                value={urlInput}
-                onChange={(e) => setUrlInput(e.target.value)}
+                placeholder="Type text here to send to the browser..."
+                className="flex-1 text-sm"
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') {
+                    e.preventDefault();
+                    const input = e.currentTarget;
+                    const text = input.value;
+                    if (text) {
+                      sendTextCharacters(text);
+                      input.value = '';
+                    }
+                  } else if (e.key === 'Backspace') {
+                    e.stopPropagation();
+                  } else {
                     e.stopPropagation();
-                    handleNavigate();
                   }
                 }}
-                placeholder="https://example.com"
-                className="font-mono text-xs sm:text-sm"
                 disabled={!isConnected}
-                data-testid="input-url"
+                data-testid="input-text-sender"
               />
               <Button
-                onClick={() => handleNavigate()}
-                disabled={isLoading || !isConnected}
-                data-testid="button-navigate"
+                onClick={(e) => {
+                  const input = e.currentTarget.previousElementSibling as HTMLInputElement;
+                  const text = input?.value;
+                  if (text) {
+                    sendTextCharacters(text);
+                    input.value = '';
+                  }
+                }}
+                disabled={!isConnected}
                 size="sm"
                 className="shrink-0"
               >
-                Go
+                Send
               </Button>
             </div>
-          </div>
-
-          <div className="hidden sm:flex items-center gap-2">
-            <input
-              ref={fileInputRef}
-              type="file"
-              onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
-              className="flex-1 text-sm"
-              data-testid="input-file"
-            />
-            <Button
-              onClick={handleFileUpload}
-              disabled={!selectedFile || !isConnected}
-              variant="outline"
-              size="sm"
-              className="gap-2"
-              data-testid="button-upload"
-            >
-              <Upload className="w-4 h-4" />
-              Upload File
-            </Button>
-          </div>
 
-          {!isConnected && (
-            <div className="bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 p-3 rounded-md text-sm">
-              {session.status !== "running"
-                ? "Session is not running. Start the session to view the browser."
-                : "Connecting to browser stream..."}
+            <div className="text-xs text-muted-foreground hidden sm:block">
+              <strong>Tip:</strong> Click, double-click, right-click and drag on the canvas to interact with the browser.
+              Type anywhere to send keyboard input, shortcuts included. The mouse wheel scrolls whatever is under the pointer.
             </div>
-          )}
-
-          <div
-            ref={containerRef}
-            className="flex-1 border rounded-md overflow-auto bg-gray-100 dark:bg-gray-900 relative"
-            style={{ minHeight: 0 }}
-          >
-            <canvas
-              ref={canvasRef}
-              onClick={handleCanvasClick}
-              onMouseMove={handleCanvasMouseMove}
-              onWheel={handleCanvasWheel}
-              onTouchStart={handleTouchStart}
-              onTouchEnd={handleTouchEnd}
-              onTouchMove={handleTouchMove}
-              className="cursor-pointer touch-none block"
-              style={{ 
-                imageRendering: 'auto',
-                width: 'auto',
-                height: 'auto',
-                maxWidth: '100%',
-                maxHeight: '100%'
-              }}
-              data-testid="canvas-browser"
-            />
-            {!isConnected && (
-              <div className="absolute inset-0 flex items-center justify-center">
-                <div className="text-center">
-                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 dark:border-gray-100 mx-auto mb-4"></div>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    {session.status === "running" ? "Connecting..." : "Session Stopped"}
-                  </p>
-                </div>
-              </div>
-            )}
           </div>
+        </DialogContent>
+      </Dialog>
 
-          <div className="flex items-center gap-2">
+      {/* Outside the viewer so typing into a prompt isn't forwarded to the page */}
+      <AlertDialog open={open && !!activeDialog}>
+        <AlertDialogContent data-testid="page-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{activeDialog ? DIALOG_TITLES[activeDialog.type] : ""}</AlertDialogTitle>
+            <AlertDialogDescription className="whitespace-pre-wrap break-words">
+              {activeDialog?.message || "This page wants to show a dialog."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {activeDialog?.type === 'prompt' && (
             <Input
-              type="text"
-              placeholder="Type text here to send to the browser..."
-              className="flex-1 text-sm"
+              value={promptText}
+              onChange={(e) => setPromptText(e.target.value)}
               onKeyDown={(e) => {
                 if (e.key === 'Enter') {
                   e.preventDefault();
-                  const input = e.currentTarget;
-                  const text = input.value;
-                  if (text) {
-                    sendTextCharacters(text);
-                    input.value = '';
-                  }
-                } else if (e.key === 'Backspace') {
-                  e.stopPropagation();
-                } else {
-                  e.stopPropagation();
+                  answerDialog(true);
                 }
               }}
-              disabled={!isConnected}
-              data-testid="input-text-sender"
+              autoFocus
+              data-testid="input-page-dialog-prompt"
             />
+          )}
+          <AlertDialogFooter>
+            {activeDialog?.type !== 'alert' && (
+              <AlertDialogCancel onClick={() => answerDialog(false)} data-testid="button-page-dialog-cancel">
+                {activeDialog?.type === 'beforeunload' ? "Stay" : "Cancel"}
+              </AlertDialogCancel>
+            )}
+            <AlertDialogAction onClick={() => answerDialog(true)} data-testid="button-page-dialog-ok">
+              {activeDialog?.type === 'beforeunload' ? "Leave" : "OK"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={open && !!fileChooser && !activeDialog}>
+        <AlertDialogContent data-testid="file-chooser-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{fileChooser?.multiple ? "Choose Files" : "Choose a File"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The page opened a file chooser.
+              {fileChooser && fileChooser.accept.length > 0 && ` It accepts ${fileChooser.accept.join(", ")}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <input
+            ref={chooserInputRef}
+            type="file"
+            className="hidden"
+            multiple={fileChooser?.multiple}
+            accept={fileChooser?.accept.join(",")}
+            onChange={(e) => handleChooserFiles(e.target.files)}
+            data-testid="input-file-chooser"
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleChooserCancel} data-testid="button-file-chooser-cancel">
+              Cancel
+            </AlertDialogCancel>
             <Button
-              onClick={(e) => {
-                const input = e.currentTarget.previousElementSibling as HTMLInputElement;
-                const text = input?.value;
-                if (text) {
-                  sendTextCharacters(text);
-                  input.value = '';
-                }
-              }}
-              disabled={!isConnected}
-              size="sm"
-              className="shrink-0"
+              onClick={() => chooserInputRef.current?.click()}
+              className="gap-2"
+              data-testid="button-file-chooser-browse"
             >
-              Send
+              <Upload className="w-4 h-4" />
+              Browse...
             </Button>
-          </div>
-
-          <div className="text-xs text-muted-foreground hidden sm:block">
-            <strong>Tip:</strong> Click on the canvas to interact with the browser.
-            Type anywhere to send keyboard input. Use the mouse wheel to scroll.
-          </div>
-        </div>
-      </DialogContent>
-    </Dialog>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
   );
 }
\ No newline at end of file
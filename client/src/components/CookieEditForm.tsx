@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Cookie, CookieRequest } from "@shared/schema";
+
+interface CookieEditFormProps {
+  cookie?: Cookie;
+  onSubmit: (data: CookieRequest) => void;
+  onCancel: () => void;
+  isPending?: boolean;
+}
+
+// Format a date for a datetime-local input (local time, minute precision)
+function toDateTimeLocal(date: Date | string | null | undefined): string {
+  if (!date) return "";
+  const d = new Date(date);
+  const offset = d.getTimezoneOffset() * 60000;
+  return new Date(d.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export function CookieEditForm({ cookie, onSubmit, onCancel, isPending }: CookieEditFormProps) {
+  const [name, setName] = useState(cookie?.name ?? "");
+  const [value, setValue] = useState(cookie?.value ?? "");
+  const [domain, setDomain] = useState(cookie?.domain ?? "");
+  const [path, setPath] = useState(cookie?.path ?? "/");
+  const [expires, setExpires] = useState(toDateTimeLocal(cookie?.expires));
+  const [httpOnly, setHttpOnly] = useState(cookie?.httpOnly ?? false);
+  const [secure, setSecure] = useState(cookie?.secure ?? false);
+  const [sameSite, setSameSite] = useState<string>(cookie?.sameSite ?? "none-set");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      name,
+      value,
+      domain: domain || null,
+      path: path || null,
+      expires: expires ? new Date(expires) : null,
+      httpOnly,
+      secure,
+      sameSite: sameSite === "none-set" ? null : (sameSite as CookieRequest["sameSite"]),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 border rounded-md space-y-4" data-testid="form-cookie">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="cookie-name">Name</Label>
+          <Input
+            id="cookie-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="font-mono text-xs"
+            required
+            data-testid="input-cookie-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cookie-domain">Domain</Label>
+          <Input
+            id="cookie-domain"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="Session URL if empty"
+            className="font-mono text-xs"
+            data-testid="input-cookie-domain"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="cookie-value">Value</Label>
+        <Input
+          id="cookie-value"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="font-mono text-xs"
+          data-testid="input-cookie-value"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="cookie-path">Path</Label>
+          <Input
+            id="cookie-path"
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+            className="font-mono text-xs"
+            data-testid="input-cookie-path"
+          />
+        </div>
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="cookie-expires">Expires</Label>
+          <Input
+            id="cookie-expires"
+            type="datetime-local"
+            value={expires}
+            onChange={(e) => setExpires(e.target.value)}
+            className="text-xs"
+            data-testid="input-cookie-expires"
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-6 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="cookie-http-only"
+            checked={httpOnly}
+            onCheckedChange={setHttpOnly}
+            data-testid="switch-cookie-http-only"
+          />
+          <Label htmlFor="cookie-http-only">HttpOnly</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="cookie-secure"
+            checked={secure}
+            onCheckedChange={setSecure}
+            data-testid="switch-cookie-secure"
+          />
+          <Label htmlFor="cookie-secure">Secure</Label>
+        </div>
+        <Select value={sameSite} onValueChange={setSameSite}>
+          <SelectTrigger className="w-36" data-testid="select-cookie-same-site">
+            <SelectValue placeholder="SameSite" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none-set">No SameSite</SelectItem>
+            <SelectItem value="Strict">Strict</SelectItem>
+            <SelectItem value="Lax">Lax</SelectItem>
+            <SelectItem value="None">None</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel} data-testid="button-cookie-cancel">
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isPending} data-testid="button-cookie-save">
+          {isPending ? "Saving..." : "Save Cookie"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { format } from "date-fns";
+import type { CookieEvent, CookieEventType } from "@shared/schema";
+
+interface CookieHistoryTimelineProps {
+  sessionId: string;
+}
+
+const eventConfig: Record<CookieEventType, { label: string; dotColor: string }> = {
+  added: { label: "Added", dotColor: "bg-green-500" },
+  value_changed: { label: "Value changed", dotColor: "bg-blue-500" },
+  expiry_changed: { label: "Expiry changed", dotColor: "bg-yellow-500" },
+  attributes_changed: { label: "Attributes changed", dotColor: "bg-gray-400" },
+  deleted: { label: "Deleted", dotColor: "bg-red-500" },
+};
+
+function formatExpiry(expires: Date | string | null) {
+  return expires ? new Date(expires).toLocaleString() : "session";
+}
+
+export function CookieHistoryTimeline({ sessionId }: CookieHistoryTimelineProps) {
+  const [masked, setMasked] = useState(true);
+
+  const { data: events = [], isLoading } = useQuery<CookieEvent[]>({
+    queryKey: ["/api/sessions", sessionId, "cookies", `history?mask=${masked}`],
+    refetchInterval: 10000, // Pick up changes from the running session
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="cookie-history-mask"
+          checked={masked}
+          onCheckedChange={setMasked}
+          data-testid="switch-cookie-history-mask"
+        />
+        <Label htmlFor="cookie-history-mask">Mask values</Label>
+      </div>
+      <ScrollArea className="max-h-96 pr-4">
+        {isLoading ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p className="text-sm">Loading history...</p>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p className="text-sm">No cookie changes recorded for this session</p>
+          </div>
+        ) : (
+          <ol className="border-l ml-2 space-y-4">
+            {events.map((event) => {
+              const config = eventConfig[event.type];
+              return (
+                <li key={event.id} className="ml-4 relative" data-testid={`cookie-event-${event.id}`}>
+                  <span
+                    className={`absolute -left-[22px] top-1.5 w-3 h-3 rounded-full ${config.dotColor}`}
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <p className="font-mono text-sm font-semibold truncate">{event.name}</p>
+                      <Badge variant="secondary" className="text-xs flex-shrink-0">
+                        {config.label}
+                      </Badge>
+                    </div>
+                    <time className="text-xs text-muted-foreground flex-shrink-0">
+                      {format(new Date(event.createdAt), "MMM d, HH:mm:ss")}
+                    </time>
+                  </div>
+                  <div className="text-xs text-muted-foreground space-y-1 mt-1">
+                    {event.domain && <p>Domain: {event.domain}</p>}
+                    {(event.type === "added" || event.type === "value_changed" || event.type === "deleted") && (
+                      <p className="font-mono break-all">
+                        {event.oldValue !== null && <span className="line-through">{event.oldValue}</span>}
+                        {event.oldValue !== null && event.newValue !== null && " → "}
+                        {event.newValue !== null && <span>{event.newValue}</span>}
+                      </p>
+                    )}
+                    {event.type === "expiry_changed" && (
+                      <p>
+                        Expiry: {formatExpiry(event.oldExpires)} → {formatExpiry(event.newExpires)}
+                      </p>
+                    )}
+                    {event.url && <p className="font-mono truncate">At: {event.url}</p>}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
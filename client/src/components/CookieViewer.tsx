@@ -5,18 +5,176 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import type { Cookie } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileUp, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { CookieEditForm } from "./CookieEditForm";
+import { CookieHistoryTimeline } from "./CookieHistoryTimeline";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Cookie, CookieRequest, WebStorageSnapshot } from "@shared/schema";
 
 interface CookieViewerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  sessionId: string;
   cookies: Cookie[];
+  webStorage: WebStorageSnapshot[];
   sessionUrl: string;
 }
 
-export function CookieViewer({ open, onOpenChange, cookies, sessionUrl }: CookieViewerProps) {
+function StorageEntries({ title, entries }: { title: string; entries: Record<string, string> }) {
+  const keys = Object.keys(entries);
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold text-muted-foreground">
+        {title} ({keys.length})
+      </p>
+      {keys.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Empty</p>
+      ) : (
+        keys.map((key) => (
+          <div key={key} className="grid grid-cols-3 gap-2 text-xs">
+            <p className="font-mono font-semibold truncate">{key}</p>
+            <p className="col-span-2 font-mono text-muted-foreground break-all">{entries[key]}</p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export function CookieViewer({
+  open,
+  onOpenChange,
+  sessionId,
+  cookies,
+  webStorage,
+  sessionUrl,
+}: CookieViewerProps) {
+  const { toast } = useToast();
+  // "new" while adding a cookie, a cookie ID while editing one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [bulkText, setBulkText] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const cookiesQueryKey = ["/api/sessions", sessionId, "cookies"];
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save cookie",
+      variant: "destructive",
+    });
+  };
+
+  const createCookieMutation = useMutation({
+    mutationFn: async (data: CookieRequest | CookieRequest[]) => {
+      return await apiRequest("POST", `/api/sessions/${sessionId}/cookies`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: cookiesQueryKey });
+      setEditing(null);
+      setBulkOpen(false);
+      setBulkText("");
+      toast({
+        title: "Success",
+        description: "Cookies saved",
+      });
+    },
+    onError,
+  });
+
+  const updateCookieMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: CookieRequest }) => {
+      return await apiRequest("PATCH", `/api/sessions/${sessionId}/cookies/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: cookiesQueryKey });
+      setEditing(null);
+      toast({
+        title: "Success",
+        description: "Cookie updated",
+      });
+    },
+    onError,
+  });
+
+  const deleteCookieMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/sessions/${sessionId}/cookies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: cookiesQueryKey });
+      toast({
+        title: "Success",
+        description: "Cookie deleted",
+      });
+    },
+    onError,
+  });
+
+  const importFileMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/sessions/${sessionId}/cookies/import`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+      return (await res.json()) as { imported: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: cookiesQueryKey });
+      toast({
+        title: "Success",
+        description: `Imported ${result.imported} cookies`,
+      });
+    },
+    onError,
+    onSettled: () => {
+      if (importInputRef.current) {
+        importInputRef.current.value = "";
+      }
+    },
+  });
+
+  const handleExport = (format: "netscape" | "json" | "har") => {
+    const link = document.createElement("a");
+    link.href = `/api/sessions/${sessionId}/cookies/export?format=${format}`;
+    link.click();
+  };
+
+  const handleBulkImport = () => {
+    try {
+      const parsed = JSON.parse(bulkText);
+      createCookieMutation.mutate(Array.isArray(parsed) ? parsed : [parsed]);
+    } catch {
+      toast({
+        title: "Invalid JSON",
+        description: "Paste a JSON array of cookie objects",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[700px]">
@@ -24,56 +182,250 @@ export function CookieViewer({ open, onOpenChange, cookies, sessionUrl }: Cookie
           <DialogTitle className="text-2xl font-semibold">Session Cookies</DialogTitle>
           <DialogDescription className="font-mono text-xs">{sessionUrl}</DialogDescription>
         </DialogHeader>
-        <ScrollArea className="max-h-96 pr-4">
-          {cookies.length === 0 ? (
-            <div className="text-center py-12 text-muted-foreground">
-              <p className="text-sm">No cookies stored for this session</p>
+        <Tabs defaultValue="cookies">
+          <TabsList>
+            <TabsTrigger value="cookies" data-testid="tab-cookies">
+              Cookies
+            </TabsTrigger>
+            <TabsTrigger value="web-storage" data-testid="tab-web-storage">
+              Web Storage
+            </TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-cookie-history">
+              History
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="cookies" className="space-y-4">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => setEditing("new")}
+                disabled={editing === "new"}
+                data-testid="button-add-cookie"
+              >
+                <Plus className="w-4 h-4" />
+                Add Cookie
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => setBulkOpen(!bulkOpen)}
+                data-testid="button-bulk-import-cookies"
+              >
+                <Upload className="w-4 h-4" />
+                Bulk Import
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => importInputRef.current?.click()}
+                disabled={importFileMutation.isPending}
+                data-testid="button-import-cookie-file"
+              >
+                <FileUp className="w-4 h-4" />
+                Import File
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".txt,.json,.har"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importFileMutation.mutate(file);
+                }}
+                data-testid="input-import-cookie-file"
+              />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                    disabled={cookies.length === 0}
+                    data-testid="button-export-cookies"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem onClick={() => handleExport("netscape")} data-testid="menu-export-netscape">
+                    Netscape cookies.txt
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport("json")} data-testid="menu-export-json">
+                    JSON (EditThisCookie)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport("har")} data-testid="menu-export-har">
+                    HAR cookies
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
-          ) : (
-            <div className="space-y-4">
-              {cookies.map((cookie) => (
-                <div
-                  key={cookie.id}
-                  className="p-4 border rounded-md space-y-2"
-                  data-testid={`cookie-${cookie.id}`}
-                >
-                  <div className="flex items-center justify-between gap-2">
-                    <p className="font-mono text-sm font-semibold truncate">{cookie.name}</p>
-                    <div className="flex gap-2 flex-shrink-0">
-                      {cookie.httpOnly && (
-                        <Badge variant="secondary" className="text-xs">
-                          HttpOnly
-                        </Badge>
-                      )}
-                      {cookie.secure && (
-                        <Badge variant="secondary" className="text-xs">
-                          Secure
-                        </Badge>
-                      )}
-                      {cookie.sameSite && (
-                        <Badge variant="secondary" className="text-xs">
-                          {cookie.sameSite}
-                        </Badge>
+            {bulkOpen && (
+              <div className="space-y-2">
+                <Textarea
+                  value={bulkText}
+                  onChange={(e) => setBulkText(e.target.value)}
+                  placeholder='[{"name": "token", "value": "...", "domain": ".example.com", "path": "/"}]'
+                  className="font-mono text-xs min-h-32"
+                  data-testid="input-bulk-cookies"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="secondary" onClick={() => setBulkOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleBulkImport}
+                    disabled={!bulkText.trim() || createCookieMutation.isPending}
+                    data-testid="button-bulk-import-submit"
+                  >
+                    Import
+                  </Button>
+                </div>
+              </div>
+            )}
+            {editing === "new" && (
+              <CookieEditForm
+                onSubmit={(data) => createCookieMutation.mutate(data)}
+                onCancel={() => setEditing(null)}
+                isPending={createCookieMutation.isPending}
+              />
+            )}
+            <ScrollArea className="max-h-96 pr-4">
+              {cookies.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p className="text-sm">No cookies stored for this session</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {cookies.map((cookie) =>
+                    editing === cookie.id ? (
+                      <CookieEditForm
+                        key={cookie.id}
+                        cookie={cookie}
+                        onSubmit={(data) => updateCookieMutation.mutate({ id: cookie.id, data })}
+                        onCancel={() => setEditing(null)}
+                        isPending={updateCookieMutation.isPending}
+                      />
+                    ) : (
+                      <div
+                        key={cookie.id}
+                        className="p-4 border rounded-md space-y-2"
+                        data-testid={`cookie-${cookie.id}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="font-mono text-sm font-semibold truncate">{cookie.name}</p>
+                          <div className="flex gap-2 flex-shrink-0">
+                            {cookie.httpOnly && (
+                              <Badge variant="secondary" className="text-xs">
+                                HttpOnly
+                              </Badge>
+                            )}
+                            {cookie.secure && (
+                              <Badge variant="secondary" className="text-xs">
+                                Secure
+                              </Badge>
+                            )}
+                            {cookie.sameSite && (
+                              <Badge variant="secondary" className="text-xs">
+                                {cookie.sameSite}
+                              </Badge>
+                            )}
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6"
+                              onClick={() => setEditing(cookie.id)}
+                              data-testid={`button-edit-cookie-${cookie.id}`}
+                              title="Edit Cookie"
+                            >
+                              <Pencil className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6"
+                              onClick={() => deleteCookieMutation.mutate(cookie.id)}
+                              disabled={deleteCookieMutation.isPending}
+                              data-testid={`button-delete-cookie-${cookie.id}`}
+                              title="Delete Cookie"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </div>
+                        <p className="font-mono text-xs text-muted-foreground break-all">
+                          {cookie.value}
+                        </p>
+                        <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                          {cookie.domain && <p>Domain: {cookie.domain}</p>}
+                          {cookie.path && <p>Path: {cookie.path}</p>}
+                          {cookie.expires && (
+                            <p className="col-span-2">
+                              Expires: {new Date(cookie.expires).toLocaleString()}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="web-storage">
+            <ScrollArea className="max-h-96 pr-4">
+              {webStorage.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p className="text-sm">No web storage captured for this session</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {webStorage.map((snapshot) => (
+                    <div
+                      key={snapshot.id}
+                      className="p-4 border rounded-md space-y-4"
+                      data-testid={`web-storage-${snapshot.id}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-mono text-sm font-semibold truncate">{snapshot.origin}</p>
+                        <p className="text-xs text-muted-foreground flex-shrink-0">
+                          {new Date(snapshot.updatedAt).toLocaleString()}
+                        </p>
+                      </div>
+                      <StorageEntries title="localStorage" entries={snapshot.localStorage} />
+                      <StorageEntries title="sessionStorage" entries={snapshot.sessionStorage} />
+                      {snapshot.indexedDb && (
+                        <div className="space-y-2">
+                          <p className="text-xs font-semibold text-muted-foreground">
+                            IndexedDB ({snapshot.indexedDb.databases.length})
+                            {snapshot.indexedDb.usageBytes !== undefined &&
+                              ` · ${(snapshot.indexedDb.usageBytes / 1024).toFixed(1)} KB used`}
+                          </p>
+                          <div className="flex flex-wrap gap-2">
+                            {snapshot.indexedDb.databases.map((db) => (
+                              <Badge key={db.name} variant="secondary" className="text-xs font-mono">
+                                {db.name} v{db.version}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
                       )}
                     </div>
-                  </div>
-                  <p className="font-mono text-xs text-muted-foreground break-all">
-                    {cookie.value}
-                  </p>
-                  <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
-                    {cookie.domain && <p>Domain: {cookie.domain}</p>}
-                    {cookie.path && <p>Path: {cookie.path}</p>}
-                    {cookie.expires && (
-                      <p className="col-span-2">
-                        Expires: {new Date(cookie.expires).toLocaleString()}
-                      </p>
-                    )}
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          )}
-        </ScrollArea>
+              )}
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="history">
+            <CookieHistoryTimeline sessionId={sessionId} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
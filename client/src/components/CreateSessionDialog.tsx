@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -11,6 +12,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -19,13 +21,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Plus } from "lucide-react";
+import { LaunchProfileFields } from "./LaunchProfileFields";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertBrowserSessionSchema } from "@shared/schema";
-import type { InsertBrowserSessionInput } from "@shared/schema";
+import type { DevicePreset, InsertBrowserSessionInput, PublicProxyServer } from "@shared/schema";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -40,6 +44,17 @@ interface CreateSessionDialogProps {
 
 export function CreateSessionDialog({ userId, onSubmit, isPending }: CreateSessionDialogProps) {
   const [open, setOpen] = useState(false);
+  const [cookiePatterns, setCookiePatterns] = useState("");
+
+  const { data: proxies = [] } = useQuery<PublicProxyServer[]>({
+    queryKey: ["/api/proxies"],
+    enabled: open,
+  });
+
+  const { data: devicePresets = [] } = useQuery<DevicePreset[]>({
+    queryKey: ["/api/devices"],
+    enabled: open,
+  });
 
   const form = useForm<InsertBrowserSessionInput>({
     resolver: zodResolver(insertBrowserSessionSchema),
@@ -50,13 +65,67 @@ export function CreateSessionDialog({ userId, onSubmit, isPending }: CreateSessi
       viewportWidth: 1920,
       viewportHeight: 1080,
       userAgent: "",
+      persistProfile: false,
+      clipboardSync: false,
+      cookieExpiryPolicy: {
+        patterns: [],
+        thresholdMinutes: 60,
+        keepAlive: "none",
+      },
+      restartPolicy: {
+        enabled: false,
+        maxRestarts: 3,
+        windowMinutes: 10,
+        initialBackoffMs: 1000,
+        maxBackoffMs: 60000,
+      },
     },
   });
 
+  const keepAlive = form.watch("cookieExpiryPolicy.keepAlive");
+  const autoRestart = form.watch("restartPolicy.enabled");
+
+  const devicePreset = form.watch("deviceEmulation.preset");
+
+  // A preset sets viewport, user agent and touch/mobile emulation together
+  const handleDevicePresetChange = (name: string) => {
+    const preset = devicePresets.find((device) => device.name === name);
+    if (!preset) {
+      form.setValue("deviceEmulation", undefined);
+      form.setValue("viewportWidth", 1920);
+      form.setValue("viewportHeight", 1080);
+      form.setValue("userAgent", "");
+      return;
+    }
+
+    form.setValue("viewportWidth", preset.viewportWidth);
+    form.setValue("viewportHeight", preset.viewportHeight);
+    form.setValue("userAgent", preset.userAgent);
+    form.setValue("deviceEmulation", {
+      preset: preset.name,
+      deviceScaleFactor: preset.deviceScaleFactor,
+      isMobile: preset.isMobile,
+      hasTouch: preset.hasTouch,
+    });
+  };
+
+  // Patterns are typed as a comma-separated list
+  const handleCookiePatternsChange = (text: string) => {
+    setCookiePatterns(text);
+    const patterns = text.split(",").map((pattern) => pattern.trim()).filter(Boolean);
+    form.setValue("cookieExpiryPolicy.patterns", patterns);
+  };
+
   const handleSubmit = (data: InsertBrowserSessionInput) => {
-    onSubmit(data);
+    // Only send an expiry policy when there are cookies to watch
+    onSubmit({
+      ...data,
+      cookieExpiryPolicy: data.cookieExpiryPolicy?.patterns.length ? data.cookieExpiryPolicy : undefined,
+      restartPolicy: data.restartPolicy?.enabled ? data.restartPolicy : undefined,
+    });
     setOpen(false);
     form.reset();
+    setCookiePatterns("");
   };
 
   return (
@@ -67,7 +136,7 @@ export function CreateSessionDialog({ userId, onSubmit, isPending }: CreateSessi
           New Session
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl font-semibold">Create Browser Session</DialogTitle>
           <DialogDescription>
@@ -96,6 +165,23 @@ export function CreateSessionDialog({ userId, onSubmit, isPending }: CreateSessi
               )}
             />
 
+            <div className="space-y-2">
+              <Label>Device</Label>
+              <Select value={devicePreset ?? "desktop"} onValueChange={handleDevicePresetChange}>
+                <SelectTrigger className="h-12" data-testid="select-device-preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="desktop">Desktop (custom viewport)</SelectItem>
+                  {devicePresets.map((device) => (
+                    <SelectItem key={device.name} value={device.name}>
+                      {device.name} ({device.viewportWidth}×{device.viewportHeight})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -158,6 +244,358 @@ export function CreateSessionDialog({ userId, onSubmit, isPending }: CreateSessi
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="persistProfile"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between gap-4 rounded-md border p-4">
+                  <div className="space-y-1">
+                    <FormLabel>Persist Browser Profile</FormLabel>
+                    <FormDescription>
+                      Keep localStorage, IndexedDB and cache on disk so the session can be hibernated
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      data-testid="switch-persist-profile"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="clipboardSync"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between gap-4 rounded-md border p-4">
+                  <div className="space-y-1">
+                    <FormLabel>Clipboard Sync</FormLabel>
+                    <FormDescription>
+                      Let the viewer paste into the page and copy its selection with Ctrl/Cmd+V and Ctrl/Cmd+C
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      data-testid="switch-clipboard-sync"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-4 rounded-md border p-4">
+              <div className="space-y-2">
+                <Label htmlFor="cookie-patterns">Cookie Expiry Alerts</Label>
+                <Input
+                  id="cookie-patterns"
+                  placeholder="session_id, auth_*"
+                  className="font-mono text-xs"
+                  value={cookiePatterns}
+                  onChange={(e) => handleCookiePatternsChange(e.target.value)}
+                  data-testid="input-cookie-patterns"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Warn when cookies matching these names are about to expire
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="cookieExpiryPolicy.thresholdMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Warn Before (min)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          data-testid="input-cookie-threshold"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="cookieExpiryPolicy.keepAlive"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Keep-Alive</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-keep-alive">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="refresh">Refresh page</SelectItem>
+                          <SelectItem value="navigate">Visit URL</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {keepAlive === "navigate" && (
+                <FormField
+                  control={form.control}
+                  name="cookieExpiryPolicy.keepAliveUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Keep-Alive URL</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="https://example.com/account"
+                          className="font-mono text-xs"
+                          data-testid="input-keep-alive-url"
+                          {...field}
+                          value={field.value || ""}
+                          onChange={(e) => field.onChange(e.target.value || undefined)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="space-y-4 rounded-md border p-4">
+              <FormField
+                control={form.control}
+                name="restartPolicy.enabled"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <FormLabel>Restart After Crash</FormLabel>
+                      <FormDescription>
+                        Relaunch the browser with increasing delays if it crashes
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        data-testid="switch-auto-restart"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              {autoRestart && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="restartPolicy.maxRestarts"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Restarts</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={20}
+                            data-testid="input-max-restarts"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="restartPolicy.windowMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Within (min)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            data-testid="input-restart-window"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="idleTimeout"
+              render={({ field }) => (
+                <FormItem className="space-y-4 rounded-md border p-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <FormLabel>When Idle</FormLabel>
+                      <Select
+                        value={field.value?.action ?? "none"}
+                        onValueChange={(value) =>
+                          field.onChange(
+                            value === "none"
+                              ? undefined
+                              : { action: value as "pause" | "stop", minutes: field.value?.minutes ?? 30 }
+                          )
+                        }
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-idle-action">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Keep running</SelectItem>
+                          <SelectItem value="pause">Pause</SelectItem>
+                          <SelectItem value="stop">Stop</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {field.value && (
+                      <div className="space-y-2">
+                        <Label htmlFor="idle-minutes">After (min)</Label>
+                        <Input
+                          id="idle-minutes"
+                          type="number"
+                          min={1}
+                          value={field.value.minutes}
+                          onChange={(e) => field.onChange({ ...field.value, minutes: parseInt(e.target.value) })}
+                          data-testid="input-idle-minutes"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <FormDescription>
+                    Input, navigation, page requests and an open viewer all count as activity
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="dialogPolicy"
+              render={({ field }) => (
+                <FormItem className="space-y-4 rounded-md border p-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <FormLabel>Page Dialogs</FormLabel>
+                      <Select
+                        value={field.value?.mode ?? "ask"}
+                        onValueChange={(value) =>
+                          field.onChange({
+                            mode: value as "ask" | "accept" | "dismiss",
+                            timeoutSeconds: field.value?.timeoutSeconds ?? 60,
+                            timeoutAction: field.value?.timeoutAction ?? "dismiss",
+                          })
+                        }
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-dialog-mode">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="ask">Ask in the viewer</SelectItem>
+                          <SelectItem value="accept">Always accept</SelectItem>
+                          <SelectItem value="dismiss">Always dismiss</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {(field.value?.mode ?? "ask") === "ask" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="dialog-timeout">Dismiss After (sec)</Label>
+                        <Input
+                          id="dialog-timeout"
+                          type="number"
+                          min={5}
+                          value={field.value?.timeoutSeconds ?? 60}
+                          onChange={(e) =>
+                            field.onChange({
+                              mode: "ask",
+                              timeoutAction: "dismiss",
+                              ...field.value,
+                              timeoutSeconds: parseInt(e.target.value),
+                            })
+                          }
+                          data-testid="input-dialog-timeout"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <FormDescription>
+                    Alerts, confirms and prompts left unanswered are dismissed so the page can carry on
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {proxies.length > 0 && (
+              <FormField
+                control={form.control}
+                name="proxyId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Proxy</FormLabel>
+                    <Select
+                      value={field.value ?? "none"}
+                      onValueChange={(value) => field.onChange(value === "none" ? undefined : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-session-proxy">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No proxy from the pool</SelectItem>
+                        {proxies.map((proxy) => (
+                          <SelectItem key={proxy.id} value={proxy.id}>
+                            {proxy.name} ({proxy.host}:{proxy.port})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Overrides the proxy in the launch profile</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="launchProfile"
+              render={({ field }) => (
+                <FormItem>
+                  <LaunchProfileFields value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button
                 type="button"
@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Save } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { SessionDownload } from "@shared/schema";
+
+interface DownloadsPanelProps {
+  sessionId: string;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function describeProgress(download: SessionDownload): string {
+  switch (download.state) {
+    case "in_progress":
+      return download.totalBytes
+        ? `${formatBytes(download.receivedBytes)} of ${formatBytes(download.totalBytes)}`
+        : `${formatBytes(download.receivedBytes)} so far`;
+    case "completed":
+      return formatBytes(download.receivedBytes);
+    case "canceled":
+      return "Canceled";
+    case "interrupted":
+      return "Interrupted";
+  }
+}
+
+export function DownloadsPanel({ sessionId }: DownloadsPanelProps) {
+  // Kept current by the viewer's WebSocket, which pushes progress into this query
+  const { data: downloads = [] } = useQuery<SessionDownload[]>({
+    queryKey: ["/api/sessions", sessionId, "downloads"],
+  });
+
+  return (
+    <div className="border rounded-md p-3" data-testid="downloads-panel">
+      {downloads.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-2">
+          Files the page downloads will appear here
+        </p>
+      ) : (
+        <ScrollArea className="max-h-40">
+          <div className="space-y-2 pr-3">
+            {downloads.map((download) => (
+              <div
+                key={download.id}
+                className="flex items-center gap-3"
+                data-testid={`download-${download.id}`}
+              >
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium truncate" title={download.url}>
+                      {download.fileName}
+                    </p>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {describeProgress(download)}
+                    </span>
+                  </div>
+                  {download.state === "in_progress" ? (
+                    <Progress
+                      value={download.totalBytes ? (download.receivedBytes / download.totalBytes) * 100 : undefined}
+                      className="h-1.5"
+                    />
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(download.createdAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="shrink-0"
+                  disabled={download.state !== "completed"}
+                  asChild={download.state === "completed"}
+                  data-testid={`button-save-download-${download.id}`}
+                  title="Save"
+                >
+                  {download.state === "completed" ? (
+                    <a href={`/api/sessions/${sessionId}/downloads/${download.id}/file`} download={download.fileName}>
+                      <Save className="w-4 h-4" />
+                    </a>
+                  ) : (
+                    <Save className="w-4 h-4" />
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
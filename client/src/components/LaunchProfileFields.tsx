@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronDown } from "lucide-react";
+import type { LaunchProfile } from "@shared/schema";
+
+interface LaunchProfileFieldsProps {
+  value?: LaunchProfile;
+  onChange: (profile: LaunchProfile | undefined) => void;
+}
+
+// Drop empty fields so unset values fall back to the server's default profile
+function compactProfile(profile: LaunchProfile): LaunchProfile | undefined {
+  const entries = Object.entries(profile).filter(([, value]) => {
+    if (value === undefined || value === "") return false;
+    if (Array.isArray(value)) return value.length > 0;
+    return true;
+  });
+  return entries.length ? (Object.fromEntries(entries) as LaunchProfile) : undefined;
+}
+
+function parseNumber(text: string): number | undefined {
+  const value = parseFloat(text);
+  return Number.isNaN(value) ? undefined : value;
+}
+
+export function LaunchProfileFields({ value, onChange }: LaunchProfileFieldsProps) {
+  const profile = value ?? {};
+  const [extraArgs, setExtraArgs] = useState((profile.extraArgs ?? []).join("\n"));
+  const [latitude, setLatitude] = useState(profile.geolocation?.latitude?.toString() ?? "");
+  const [longitude, setLongitude] = useState(profile.geolocation?.longitude?.toString() ?? "");
+
+  const update = (changes: Partial<LaunchProfile>) => {
+    onChange(compactProfile({ ...profile, ...changes }));
+  };
+
+  const updateProxy = (changes: Partial<NonNullable<LaunchProfile["proxy"]>>) => {
+    const proxy = { server: "", ...profile.proxy, ...changes };
+    update({ proxy: proxy.server ? proxy : undefined });
+  };
+
+  // Geolocation is only sent once both coordinates are filled in
+  const updateGeolocation = (lat: string, lng: string) => {
+    setLatitude(lat);
+    setLongitude(lng);
+    const parsedLat = parseNumber(lat);
+    const parsedLng = parseNumber(lng);
+    update({
+      geolocation:
+        parsedLat !== undefined && parsedLng !== undefined
+          ? { latitude: parsedLat, longitude: parsedLng }
+          : undefined,
+    });
+  };
+
+  return (
+    <Collapsible className="rounded-md border p-4">
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-sm font-medium" data-testid="button-toggle-launch-profile">
+        Launch Profile
+        <ChevronDown className="w-4 h-4" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 pt-4">
+        <p className="text-sm text-muted-foreground">
+          Leave fields empty to use the server's default launch profile
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="launch-executable">Chromium Executable</Label>
+          <Input
+            id="launch-executable"
+            placeholder="Auto-detect"
+            className="font-mono text-xs"
+            value={profile.executablePath ?? ""}
+            onChange={(e) => update({ executablePath: e.target.value || undefined })}
+            data-testid="input-launch-executable"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="launch-extra-args">Extra Flags (one per line)</Label>
+          <Textarea
+            id="launch-extra-args"
+            placeholder="--disable-web-security"
+            className="font-mono text-xs"
+            rows={2}
+            value={extraArgs}
+            onChange={(e) => {
+              setExtraArgs(e.target.value);
+              update({
+                extraArgs: e.target.value.split("\n").map((arg) => arg.trim()).filter(Boolean),
+              });
+            }}
+            data-testid="input-launch-extra-args"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="launch-proxy-server">Proxy Server</Label>
+          <Input
+            id="launch-proxy-server"
+            placeholder="http://proxy.example.com:8080"
+            className="font-mono text-xs"
+            value={profile.proxy?.server ?? ""}
+            onChange={(e) => updateProxy({ server: e.target.value })}
+            data-testid="input-launch-proxy-server"
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              placeholder="Username"
+              value={profile.proxy?.username ?? ""}
+              onChange={(e) => updateProxy({ username: e.target.value || undefined })}
+              disabled={!profile.proxy}
+              data-testid="input-launch-proxy-username"
+            />
+            <Input
+              type="password"
+              placeholder="Password"
+              value={profile.proxy?.password ?? ""}
+              onChange={(e) => updateProxy({ password: e.target.value || undefined })}
+              disabled={!profile.proxy}
+              data-testid="input-launch-proxy-password"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="launch-locale">Locale</Label>
+            <Input
+              id="launch-locale"
+              placeholder="en-GB"
+              value={profile.locale ?? ""}
+              onChange={(e) => update({ locale: e.target.value || undefined })}
+              data-testid="input-launch-locale"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="launch-timezone">Timezone</Label>
+            <Input
+              id="launch-timezone"
+              placeholder="Europe/London"
+              value={profile.timezone ?? ""}
+              onChange={(e) => update({ timezone: e.target.value || undefined })}
+              data-testid="input-launch-timezone"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="launch-latitude">Latitude</Label>
+            <Input
+              id="launch-latitude"
+              type="number"
+              step="any"
+              value={latitude}
+              onChange={(e) => updateGeolocation(e.target.value, longitude)}
+              data-testid="input-launch-latitude"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="launch-longitude">Longitude</Label>
+            <Input
+              id="launch-longitude"
+              type="number"
+              step="any"
+              value={longitude}
+              onChange={(e) => updateGeolocation(latitude, e.target.value)}
+              data-testid="input-launch-longitude"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="launch-scale">Scale Factor</Label>
+            <Input
+              id="launch-scale"
+              type="number"
+              step="0.25"
+              min={0.25}
+              max={5}
+              placeholder="1"
+              value={profile.deviceScaleFactor ?? ""}
+              onChange={(e) => update({ deviceScaleFactor: parseNumber(e.target.value) })}
+              data-testid="input-launch-scale"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="launch-headed"
+            checked={profile.headless === false}
+            onCheckedChange={(checked) => update({ headless: checked ? false : undefined })}
+            data-testid="switch-launch-headed"
+          />
+          <Label htmlFor="launch-headed">Show browser window (requires a display)</Label>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Network, Plus, Trash2, Activity } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ProxyCheckResult, ProxyProtocol, PublicProxyServer } from "@shared/schema";
+
+export function ProxyPoolDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [protocol, setProtocol] = useState<ProxyProtocol>("http");
+  const [host, setHost] = useState("");
+  const [port, setPort] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: proxies = [] } = useQuery<PublicProxyServer[]>({
+    queryKey: ["/api/proxies"],
+    enabled: open,
+  });
+
+  const resetForm = () => {
+    setName("");
+    setProtocol("http");
+    setHost("");
+    setPort("");
+    setUsername("");
+    setPassword("");
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createProxyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/proxies", {
+        name,
+        protocol,
+        host,
+        port,
+        // Credentials can't be used with SOCKS5 in Chromium
+        username: protocol !== "socks5" && username ? username : undefined,
+        password: protocol !== "socks5" && password ? password : undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proxies"] });
+      resetForm();
+      toast({
+        title: "Success",
+        description: "Proxy added",
+      });
+    },
+    onError: (error: Error) => showError(error, "Failed to add proxy"),
+  });
+
+  const deleteProxyMutation = useMutation({
+    mutationFn: async (proxyId: string) => {
+      return await apiRequest("DELETE", `/api/proxies/${proxyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proxies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: (error: Error) => showError(error, "Failed to delete proxy"),
+  });
+
+  const checkProxyMutation = useMutation({
+    mutationFn: async (proxyId: string) => {
+      const res = await apiRequest("POST", `/api/proxies/${proxyId}/check`);
+      return (await res.json()) as ProxyCheckResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proxies"] });
+      toast({
+        title: result.ok ? "Proxy Reachable" : "Proxy Check Failed",
+        description: result.ok ? `Responded in ${result.latencyMs}ms` : result.error,
+        variant: result.ok ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error) => showError(error, "Failed to check proxy"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createProxyMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" data-testid="button-proxy-pool">
+          <Network className="w-4 h-4" />
+          Proxies
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-semibold">Proxy Pool</DialogTitle>
+          <DialogDescription>
+            Define proxies once and attach them to any number of sessions
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-72 pr-4">
+          {proxies.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p className="text-sm">No proxies defined yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {proxies.map((proxy) => (
+                <div
+                  key={proxy.id}
+                  className="flex items-center justify-between gap-2 p-3 border rounded-md"
+                  data-testid={`proxy-${proxy.id}`}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-semibold truncate">{proxy.name}</p>
+                      {proxy.lastCheckOk !== null && (
+                        <Badge
+                          variant={proxy.lastCheckOk ? "secondary" : "destructive"}
+                          className="text-xs"
+                          title={proxy.lastCheckError ?? undefined}
+                        >
+                          {proxy.lastCheckOk ? "Reachable" : "Unreachable"}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {proxy.protocol}://{proxy.username ? `${proxy.username}@` : ""}
+                      {proxy.host}:{proxy.port}
+                    </p>
+                    {proxy.lastCheckedAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Checked {formatDistanceToNow(new Date(proxy.lastCheckedAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => checkProxyMutation.mutate(proxy.id)}
+                      disabled={checkProxyMutation.isPending}
+                      data-testid={`button-check-proxy-${proxy.id}`}
+                      title="Check Proxy"
+                    >
+                      <Activity className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteProxyMutation.mutate(proxy.id)}
+                      disabled={deleteProxyMutation.isPending}
+                      data-testid={`button-delete-proxy-${proxy.id}`}
+                      title="Delete Proxy"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <form onSubmit={handleSubmit} className="p-4 border rounded-md space-y-4" data-testid="form-proxy">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="proxy-name">Name</Label>
+              <Input
+                id="proxy-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="London residential"
+                required
+                data-testid="input-proxy-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Protocol</Label>
+              <Select value={protocol} onValueChange={(value) => setProtocol(value as ProxyProtocol)}>
+                <SelectTrigger data-testid="select-proxy-protocol">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="http">HTTP</SelectItem>
+                  <SelectItem value="https">HTTPS</SelectItem>
+                  <SelectItem value="socks5">SOCKS5</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="proxy-host">Host</Label>
+              <Input
+                id="proxy-host"
+                value={host}
+                onChange={(e) => setHost(e.target.value)}
+                placeholder="proxy.example.com"
+                className="font-mono text-xs"
+                required
+                data-testid="input-proxy-host"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proxy-port">Port</Label>
+              <Input
+                id="proxy-port"
+                type="number"
+                min={1}
+                max={65535}
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+                required
+                data-testid="input-proxy-port"
+              />
+            </div>
+          </div>
+          {protocol !== "socks5" && (
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                placeholder="Username (optional)"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                data-testid="input-proxy-username"
+              />
+              <Input
+                type="password"
+                placeholder="Password (optional)"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-proxy-password"
+              />
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              size="sm"
+              className="gap-2"
+              disabled={createProxyMutation.isPending}
+              data-testid="button-add-proxy"
+            >
+              <Plus className="w-4 h-4" />
+              {createProxyMutation.isPending ? "Adding..." : "Add Proxy"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,21 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { StatusBadge } from "./StatusBadge";
-import { Play, Pause, Square, Cookie, Eye } from "lucide-react";
-import type { BrowserSession } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { Play, Pause, Square, Cookie, Eye, Moon, AlertTriangle, Network, XCircle, RotateCw, Hourglass } from "lucide-react";
+import type { BrowserSession, BrowserSessionWithQueue, PublicProxyServer } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
+import { useNow } from "@/hooks/useNow";
+import { formatDuration, getSessionRuntime } from "@/lib/runtime";
 
 interface SessionCardProps {
-  session: BrowserSession;
+  session: BrowserSessionWithQueue;
   onView?: (session: BrowserSession) => void;
   onViewCookies?: (session: BrowserSession) => void;
   onPause?: (session: BrowserSession) => void;
   onResume?: (session: BrowserSession) => void;
   onStop?: (session: BrowserSession) => void;
+  onHibernate?: (session: BrowserSession) => void;
   onSettings?: (session: BrowserSession) => void;
 }
 
@@ -22,6 +26,7 @@ export function SessionCard({
   onPause,
   onResume,
   onStop,
+  onHibernate,
   onSettings,
 }: SessionCardProps) {
   const getDomain = (url: string) => {
@@ -32,13 +37,45 @@ export function SessionCard({
     }
   };
 
-  const getRuntime = () => {
+  const now = useNow(30000);
+  const { uptimeSeconds, totalSeconds } = getSessionRuntime(session, now);
+
+  const getLastActivity = () => {
     if (session.lastActivityAt) {
       return formatDistanceToNow(new Date(session.lastActivityAt), { addSuffix: true });
     }
     return "Unknown";
   };
 
+  const getExpiryWarning = () => {
+    const expiring = session.expiringCookies;
+    if (!expiring?.length) return undefined;
+    const soonest = new Date(expiring[0].expires);
+    const when = soonest.getTime() <= Date.now()
+      ? "expired"
+      : `expires ${formatDistanceToNow(soonest, { addSuffix: true })}`;
+    const names = expiring.map((cookie) => cookie.name).join(", ");
+    return `${names} ${when}`;
+  };
+
+  const expiryWarning = getExpiryWarning();
+
+  const { data: proxies = [] } = useQuery<PublicProxyServer[]>({
+    queryKey: ["/api/proxies"],
+    enabled: !!session.proxyId,
+  });
+
+  // A pool proxy wins over one set in the launch profile
+  const getProxyLabel = () => {
+    if (session.proxyId) {
+      const proxy = proxies.find((p) => p.id === session.proxyId);
+      return proxy ? `${proxy.name} (${proxy.protocol}://${proxy.host}:${proxy.port})` : undefined;
+    }
+    return session.launchProfile?.proxy?.server;
+  };
+
+  const proxyLabel = getProxyLabel();
+
   return (
     <Card className="hover-elevate transition-shadow duration-200" data-testid={`session-card-${session.id}`}>
       <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
@@ -55,12 +92,71 @@ export function SessionCard({
             </p>
           </div>
         </div>
-        <StatusBadge status={session.status} />
+        <StatusBadge status={session.status} warning={expiryWarning} />
       </CardHeader>
       <CardContent className="space-y-4">
+        {session.status === "queued" && session.queuePosition && (
+          <div
+            className="flex items-center gap-2 text-xs text-muted-foreground"
+            data-testid={`session-queue-position-${session.id}`}
+          >
+            <Hourglass className="w-4 h-4 flex-shrink-0" />
+            <span>Waiting for capacity, position {session.queuePosition} in queue</span>
+          </div>
+        )}
+        {session.status === "error" && session.lastError && (
+          <div
+            className="flex items-center gap-2 text-xs text-destructive"
+            data-testid={`session-error-${session.id}`}
+          >
+            <XCircle className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate" title={session.lastError}>{session.lastError}</span>
+          </div>
+        )}
+        {expiryWarning && (
+          <div
+            className="flex items-center gap-2 text-xs text-yellow-600 dark:text-yellow-500"
+            data-testid={`session-expiry-warning-${session.id}`}
+          >
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">Cookie {expiryWarning}</span>
+          </div>
+        )}
+        {proxyLabel && (
+          <div
+            className="flex items-center gap-2 text-xs text-muted-foreground"
+            data-testid={`session-proxy-${session.id}`}
+          >
+            <Network className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate font-mono">via {proxyLabel}</span>
+          </div>
+        )}
         <div className="flex items-center justify-between text-xs text-muted-foreground">
-          <span>Last activity: {getRuntime()}</span>
-          <span className="font-mono">{session.viewportWidth}×{session.viewportHeight}</span>
+          <span className="flex items-center gap-3">
+            <span>Last activity: {getLastActivity()}</span>
+            {session.currentRunStartedAt && (
+              <span data-testid={`session-uptime-${session.id}`}>Up {formatDuration(uptimeSeconds)}</span>
+            )}
+            {totalSeconds > 0 && (
+              <span title="Cumulative runtime" data-testid={`session-total-runtime-${session.id}`}>
+                Total {formatDuration(totalSeconds)}
+              </span>
+            )}
+            {session.restartCount > 0 && (
+              <span
+                className="flex items-center gap-1"
+                title="Restarts after a crash"
+                data-testid={`session-restarts-${session.id}`}
+              >
+                <RotateCw className="w-3 h-3" />
+                {session.restartCount}
+              </span>
+            )}
+          </span>
+          <span className="font-mono" data-testid={`session-viewport-${session.id}`}>
+            {session.deviceEmulation?.preset && `${session.deviceEmulation.preset} · `}
+            {session.viewportWidth}×{session.viewportHeight}
+          </span>
         </div>
         <div className="flex items-center gap-2">
           <Button
@@ -106,6 +202,18 @@ export function SessionCard({
               <Play className="w-5 h-5" />
             </Button>
           )}
+          {session.persistProfile && (session.status === "running" || session.status === "paused") && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onHibernate?.(session)}
+              data-testid={`button-hibernate-${session.id}`}
+              className="h-10 w-10"
+              title="Hibernate"
+            >
+              <Moon className="w-5 h-5" />
+            </Button>
+          )}
           <Button
             size="icon"
             variant="ghost"
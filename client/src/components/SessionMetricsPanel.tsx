@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import type { BrowserSession, SessionMetrics } from "@shared/schema";
+
+interface SessionMetricsPanelProps {
+  // Running sessions to choose from
+  sessions: BrowserSession[];
+}
+
+const cpuConfig = {
+  cpu: { label: "CPU %", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const memoryConfig = {
+  rss: { label: "Process RSS (MB)", color: "hsl(var(--chart-2))" },
+  heap: { label: "JS heap (MB)", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const fpsConfig = {
+  fps: { label: "Frames/s", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+function toMegabytes(bytes: number | null): number | null {
+  return bytes === null ? null : Math.round((bytes / (1024 * 1024)) * 10) / 10;
+}
+
+function getDomain(url: string) {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+export function SessionMetricsPanel({ sessions }: SessionMetricsPanelProps) {
+  const [selectedId, setSelectedId] = useState<string>();
+
+  // Fall back to the first session when the selected one stops
+  const sessionId = sessions.some((s) => s.id === selectedId) ? selectedId : sessions[0]?.id;
+
+  const { data: metrics } = useQuery<SessionMetrics>({
+    queryKey: ["/api/sessions", sessionId, "metrics"],
+    enabled: !!sessionId,
+    refetchInterval: 5000,
+  });
+
+  if (!sessionId) {
+    return null;
+  }
+
+  const samples = metrics?.samples ?? [];
+  const data = samples.map((sample) => ({
+    time: format(new Date(sample.timestamp), "HH:mm:ss"),
+    cpu: sample.cpuPercent,
+    rss: toMegabytes(sample.rssBytes),
+    heap: toMegabytes(sample.jsHeapUsedBytes),
+    fps: sample.fps,
+  }));
+  const latest = samples[samples.length - 1];
+
+  const renderChart = (config: ChartConfig, testId: string, withLegend = false) => (
+    <ChartContainer config={config} className="h-40 w-full aspect-auto" data-testid={testId}>
+      <LineChart data={data} margin={{ left: 0, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={32} />
+        <YAxis tickLine={false} axisLine={false} width={40} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        {withLegend && <ChartLegend content={<ChartLegendContent />} />}
+        {Object.keys(config).map((key) => (
+          <Line
+            key={key}
+            dataKey={key}
+            type="monotone"
+            stroke={`var(--color-${key})`}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+
+  return (
+    <Card data-testid="session-metrics-panel">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-lg">Resource Usage</CardTitle>
+          <CardDescription>
+            {latest
+              ? `${latest.domNodes ?? "?"} DOM nodes · ${toMegabytes(latest.jsHeapTotalBytes) ?? "?"} MB JS heap allocated`
+              : "Collecting samples..."}
+          </CardDescription>
+        </div>
+        <Select value={sessionId} onValueChange={setSelectedId}>
+          <SelectTrigger className="w-[220px]" data-testid="select-metrics-session">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sessions.map((session) => (
+              <SelectItem key={session.id} value={session.id}>
+                {getDomain(session.url)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">CPU</p>
+          {renderChart(cpuConfig, "chart-session-cpu")}
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Memory</p>
+          {renderChart(memoryConfig, "chart-session-memory", true)}
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Screencast Frame Rate</p>
+          {renderChart(fpsConfig, "chart-session-fps")}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
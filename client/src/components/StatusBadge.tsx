@@ -1,12 +1,13 @@
 import { Badge } from "@/components/ui/badge";
-
-type SessionStatus = "running" | "paused" | "stopped" | "error";
+import { AlertTriangle } from "lucide-react";
+import type { SessionStatus } from "@shared/schema";
 
 interface StatusBadgeProps {
   status: SessionStatus;
+  warning?: string;
 }
 
-export function StatusBadge({ status }: StatusBadgeProps) {
+export function StatusBadge({ status, warning }: StatusBadgeProps) {
   const statusConfig = {
     running: {
       label: "Running",
@@ -32,6 +33,18 @@ export function StatusBadge({ status }: StatusBadgeProps) {
       variant: "destructive" as const,
       animate: false,
     },
+    hibernated: {
+      label: "Hibernated",
+      dotColor: "bg-blue-400",
+      variant: "secondary" as const,
+      animate: false,
+    },
+    queued: {
+      label: "Queued",
+      dotColor: "bg-purple-400",
+      variant: "secondary" as const,
+      animate: true,
+    },
   };
 
   const config = statusConfig[status];
@@ -44,6 +57,11 @@ export function StatusBadge({ status }: StatusBadgeProps) {
         }`}
       />
       <span className="text-xs">{config.label}</span>
+      {warning && (
+        <span title={warning} data-testid={`status-warning-${status}`}>
+          <AlertTriangle className="w-3 h-3 text-yellow-500" />
+        </span>
+      )}
     </Badge>
   );
 }
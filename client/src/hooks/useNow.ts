@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Current time, refreshed every intervalMs so durations keep counting up
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
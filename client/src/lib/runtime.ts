@@ -0,0 +1,29 @@
+import type { BrowserSession } from "@shared/schema";
+
+/**
+ * Format seconds as a compact duration such as "3d 4h", "2h 15m" or "42s"
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+}
+
+/**
+ * Seconds the current run has been up, and all runs including it
+ */
+export function getSessionRuntime(session: BrowserSession, now = Date.now()) {
+  const uptimeSeconds = session.currentRunStartedAt
+    ? Math.max(0, (now - new Date(session.currentRunStartedAt).getTime()) / 1000)
+    : 0;
+  return {
+    uptimeSeconds,
+    totalSeconds: session.totalRuntimeSeconds + uptimeSeconds,
+  };
+}
@@ -8,12 +8,22 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { SessionCard } from "@/components/SessionCard";
 import { MetricsCard } from "@/components/MetricsCard";
+import { SessionMetricsPanel } from "@/components/SessionMetricsPanel";
 import { CreateSessionDialog } from "@/components/CreateSessionDialog";
+import { ProxyPoolDialog } from "@/components/ProxyPoolDialog";
 import { CookieViewer } from "@/components/CookieViewer";
 import { BrowserViewer } from "@/components/BrowserViewer";
-import { Activity, Clock, Cookie as CookieIcon, Globe, Zap } from "lucide-react";
-import type { BrowserSession, Cookie, InsertBrowserSessionInput } from "@shared/schema";
+import { Activity, Clock, Globe, Timer, Zap } from "lucide-react";
+import type {
+  BrowserSession,
+  BrowserSessionWithQueue,
+  Cookie,
+  InsertBrowserSessionInput,
+  WebStorageSnapshot,
+} from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import { useNow } from "@/hooks/useNow";
+import { formatDuration, getSessionRuntime } from "@/lib/runtime";
 
 export default function Home() {
   const { toast } = useToast();
@@ -41,7 +51,7 @@ export default function Home() {
   }, [isAuthenticated, isLoading, toast]);
 
   // Fetch sessions with automatic refresh every 5 seconds
-  const { data: sessions = [], isLoading: isLoadingSessions } = useQuery<BrowserSession[]>({
+  const { data: sessions = [], isLoading: isLoadingSessions } = useQuery<BrowserSessionWithQueue[]>({
     queryKey: ["/api/sessions"],
     enabled: isAuthenticated,
     refetchInterval: 5000, // Refresh every 5 seconds for real-time status updates
@@ -53,16 +63,25 @@ export default function Home() {
     enabled: !!selectedSessionForCookies,
   });
 
+  // Fetch web storage snapshots for selected session
+  const { data: webStorage = [] } = useQuery<WebStorageSnapshot[]>({
+    queryKey: ["/api/sessions", selectedSessionForCookies?.id, "web-storage"],
+    enabled: !!selectedSessionForCookies,
+  });
+
   // Create session mutation
   const createSessionMutation = useMutation({
     mutationFn: async (data: InsertBrowserSessionInput) => {
-      return await apiRequest("POST", "/api/sessions", data);
+      const res = await apiRequest("POST", "/api/sessions", data);
+      return (await res.json()) as BrowserSessionWithQueue;
     },
-    onSuccess: () => {
+    onSuccess: (session) => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
       toast({
         title: "Success",
-        description: "Browser session created successfully",
+        description: session.queuePosition
+          ? `Browser session created and queued at position ${session.queuePosition}`
+          : "Browser session created successfully",
       });
     },
     onError: (error: Error) => {
@@ -88,13 +107,16 @@ export default function Home() {
   // Update session status mutation
   const updateSessionMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      return await apiRequest("PATCH", `/api/sessions/${id}`, { status });
+      const res = await apiRequest("PATCH", `/api/sessions/${id}`, { status });
+      return (await res.json()) as BrowserSessionWithQueue;
     },
-    onSuccess: () => {
+    onSuccess: (session) => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
       toast({
         title: "Success",
-        description: "Session status updated",
+        description: session.queuePosition
+          ? `No free capacity, session queued at position ${session.queuePosition}`
+          : "Session status updated",
       });
     },
     onError: (error: Error) => {
@@ -133,6 +155,10 @@ export default function Home() {
     updateSessionMutation.mutate({ id: session.id, status: "stopped" });
   };
 
+  const handleHibernateSession = (session: BrowserSession) => {
+    updateSessionMutation.mutate({ id: session.id, status: "hibernated" });
+  };
+
   const handleViewSession = (session: BrowserSession) => {
     setSelectedSessionForViewer(session);
   };
@@ -149,16 +175,22 @@ export default function Home() {
       status: "running",
       viewportWidth: 1920,
       viewportHeight: 1080,
+      persistProfile: false,
+      clipboardSync: false,
     };
     createSessionMutation.mutate(sessionData);
   };
 
   // Calculate metrics
-  const activeSessions = sessions.filter((s) => s.status === "running").length;
+  const runningSessions = sessions.filter((s) => s.status === "running");
+  const activeSessions = runningSessions.length;
   const totalSessions = sessions.length;
 
-  // Calculate total runtime (simplified - would need actual runtime tracking)
-  const totalRuntime = "N/A";
+  // Finished runs plus the time running sessions have been up so far
+  const now = useNow(30000);
+  const totalRuntime = formatDuration(
+    sessions.reduce((total, session) => total + getSessionRuntime(session, now).totalSeconds, 0)
+  );
 
   const style = {
     "--sidebar-width": "20rem",
@@ -205,13 +237,16 @@ export default function Home() {
                   testId="metric-total-sessions"
                 />
                 <MetricsCard
-                  title="Stored Cookies"
+                  title="Total Runtime"
                   value={totalRuntime}
-                  icon={CookieIcon}
-                  testId="metric-stored-cookies"
+                  icon={Timer}
+                  testId="metric-total-runtime"
                 />
               </div>
 
+              {/* Resource usage of running sessions */}
+              {runningSessions.length > 0 && <SessionMetricsPanel sessions={runningSessions} />}
+
               {/* Header with create button */}
               <div className="flex items-center justify-between flex-wrap gap-4">
                 <div>
@@ -241,6 +276,7 @@ export default function Home() {
                     <Zap className="w-4 h-4" />
                     Deriv
                   </Button>
+                  <ProxyPoolDialog />
                   {user && (
                     <CreateSessionDialog
                       userId={user.id}
@@ -307,6 +343,7 @@ export default function Home() {
                       onPause={handlePauseSession}
                       onResume={handleResumeSession}
                       onStop={handleStopSession}
+                      onHibernate={handleHibernateSession}
                     />
                   ))}
                 </div>
@@ -321,7 +358,9 @@ export default function Home() {
         <CookieViewer
           open={!!selectedSessionForCookies}
           onOpenChange={(open) => !open && setSelectedSessionForCookies(null)}
+          sessionId={selectedSessionForCookies.id}
           cookies={cookies}
+          webStorage={webStorage}
           sessionUrl={selectedSessionForCookies.url}
         />
       )}
@@ -331,7 +370,8 @@ export default function Home() {
         <BrowserViewer
           open={!!selectedSessionForViewer}
           onOpenChange={(open) => !open && setSelectedSessionForViewer(null)}
-          session={selectedSessionForViewer}
+          // The latest copy, so settings changed from the viewer show up in it
+          session={sessions.find((s) => s.id === selectedSessionForViewer.id) ?? selectedSessionForViewer}
         />
       )}
     </SidebarProvider>
@@ -0,0 +1,52 @@
+CREATE TABLE "browser_sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"url" varchar NOT NULL,
+	"status" varchar DEFAULT 'stopped' NOT NULL,
+	"user_agent" varchar,
+	"viewport_width" integer DEFAULT 1920 NOT NULL,
+	"viewport_height" integer DEFAULT 1080 NOT NULL,
+	"session_data" jsonb,
+	"last_activity_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cookies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"name" varchar NOT NULL,
+	"value" varchar NOT NULL,
+	"domain" varchar,
+	"path" varchar,
+	"expires" timestamp,
+	"http_only" boolean DEFAULT false NOT NULL,
+	"secure" boolean DEFAULT false NOT NULL,
+	"same_site" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" jsonb NOT NULL,
+	"expire" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" varchar,
+	"email" varchar,
+	"first_name" varchar,
+	"last_name" varchar,
+	"profile_image_url" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD CONSTRAINT "browser_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cookies" ADD CONSTRAINT "cookies_session_id_browser_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."browser_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_browser_sessions_user_id" ON "browser_sessions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "IDX_cookies_session_id" ON "cookies" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "IDX_session_expire" ON "sessions" USING btree ("expire");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "web_storage" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"origin" varchar NOT NULL,
+	"local_storage" jsonb NOT NULL,
+	"session_storage" jsonb NOT NULL,
+	"indexed_db" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "web_storage" ADD CONSTRAINT "web_storage_session_id_browser_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."browser_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_web_storage_session_origin" ON "web_storage" USING btree ("session_id","origin");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "cookie_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"type" varchar NOT NULL,
+	"name" varchar NOT NULL,
+	"domain" varchar,
+	"path" varchar,
+	"old_value" varchar,
+	"new_value" varchar,
+	"old_expires" timestamp,
+	"new_expires" timestamp,
+	"url" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cookie_events" ADD CONSTRAINT "cookie_events_session_id_browser_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."browser_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_cookie_events_session_created" ON "cookie_events" USING btree ("session_id","created_at");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "session_warnings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"type" varchar NOT NULL,
+	"message" varchar NOT NULL,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD COLUMN "cookie_expiry_policy" jsonb;--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD COLUMN "expiring_cookies" jsonb;--> statement-breakpoint
+ALTER TABLE "session_warnings" ADD CONSTRAINT "session_warnings_session_id_browser_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."browser_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_session_warnings_session_created" ON "session_warnings" USING btree ("session_id","created_at");
\ No newline at end of file
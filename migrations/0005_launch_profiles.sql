@@ -0,0 +1 @@
+ALTER TABLE "browser_sessions" ADD COLUMN "launch_profile" jsonb;
\ No newline at end of file
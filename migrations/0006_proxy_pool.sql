@@ -0,0 +1,20 @@
+CREATE TABLE "proxy_servers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" varchar NOT NULL,
+	"protocol" varchar NOT NULL,
+	"host" varchar NOT NULL,
+	"port" integer NOT NULL,
+	"username" varchar,
+	"password" varchar,
+	"last_checked_at" timestamp,
+	"last_check_ok" boolean,
+	"last_check_error" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD COLUMN "proxy_id" varchar;--> statement-breakpoint
+ALTER TABLE "proxy_servers" ADD CONSTRAINT "proxy_servers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_proxy_servers_user_id" ON "proxy_servers" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD CONSTRAINT "browser_sessions_proxy_id_proxy_servers_id_fk" FOREIGN KEY ("proxy_id") REFERENCES "public"."proxy_servers"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "browser_sessions" ADD COLUMN "device_emulation" jsonb;
\ No newline at end of file
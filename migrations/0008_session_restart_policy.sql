@@ -0,0 +1,4 @@
+ALTER TABLE "browser_sessions" ADD COLUMN "restart_policy" jsonb;--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD COLUMN "restart_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD COLUMN "last_error" varchar;--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD COLUMN "last_error_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "session_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"ended_at" timestamp,
+	"end_reason" varchar
+);
+--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD COLUMN "current_run_started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "browser_sessions" ADD COLUMN "total_runtime_seconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_runs" ADD CONSTRAINT "session_runs_session_id_browser_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."browser_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_session_runs_session_started" ON "session_runs" USING btree ("session_id","started_at");
\ No newline at end of file
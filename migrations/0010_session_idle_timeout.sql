@@ -0,0 +1 @@
+ALTER TABLE "browser_sessions" ADD COLUMN "idle_timeout" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "browser_sessions" ADD COLUMN "dialog_policy" jsonb;
\ No newline at end of file
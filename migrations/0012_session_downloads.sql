@@ -0,0 +1,14 @@
+CREATE TABLE "session_downloads" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"session_id" varchar NOT NULL,
+	"url" varchar NOT NULL,
+	"file_name" varchar NOT NULL,
+	"state" varchar DEFAULT 'in_progress' NOT NULL,
+	"received_bytes" bigint DEFAULT 0 NOT NULL,
+	"total_bytes" bigint,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "session_downloads" ADD CONSTRAINT "session_downloads_session_id_browser_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."browser_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_session_downloads_session_created" ON "session_downloads" USING btree ("session_id","created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "browser_sessions" ADD COLUMN "clipboard_sync" boolean DEFAULT false NOT NULL;
\ No newline at end of file
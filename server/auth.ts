@@ -4,6 +4,7 @@ import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import MemoryStore from "memorystore";
 import type { User } from "@shared/schema";
+import { storage } from "./storage";
 
 if (!process.env.ADMIN_USERNAME || !process.env.ADMIN_PASSWORD) {
   throw new Error("ADMIN_USERNAME and ADMIN_PASSWORD must be set in environment variables");
@@ -12,6 +13,12 @@ if (!process.env.ADMIN_USERNAME || !process.env.ADMIN_PASSWORD) {
 const ADMIN_USER: User = {
   id: "admin",
   username: process.env.ADMIN_USERNAME,
+  email: null,
+  firstName: null,
+  lastName: null,
+  profileImageUrl: null,
+  createdAt: null,
+  updatedAt: null,
 };
 
 // Create shared session store
@@ -41,6 +48,9 @@ export async function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Make sure the admin user exists so browser sessions can reference it
+  await storage.upsertUser({ id: ADMIN_USER.id, username: ADMIN_USER.username });
+
   // Configure local strategy
   passport.use(
     new LocalStrategy(async (username, password, done) => {
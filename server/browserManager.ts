@@ -1,23 +1,263 @@
 import puppeteer from "puppeteer-extra";
-import type { Browser, Page, CDPSession } from "puppeteer";
+import type {
+  Browser,
+  Page,
+  CDPSession,
+  CookieParam,
+  Dialog,
+  ElementHandle,
+  FileChooser,
+  HTTPRequest,
+  Target,
+  Viewport,
+} from "puppeteer";
 import type { Protocol } from "puppeteer";
 import StealthPlugin from "puppeteer-extra-plugin-stealth";
 import { storage } from "./storage";
-import type { BrowserSession } from "@shared/schema";
-import { execSync } from "child_process";
+import { recordRunEnd, recordRunStart } from "./sessionRuns";
+import type {
+  BrowserSession,
+  Cookie,
+  InsertCookie,
+  IndexedDbSummary,
+  InsertWebStorageSnapshot,
+  SessionRestoreResult,
+  SessionRestoreStatus,
+  BrowserTab,
+  LaunchProfile,
+  RestartPolicy,
+  SessionRunEndReason,
+  DialogPolicy,
+  PendingDialog,
+  PendingFileChooser,
+  SessionDownload,
+  InsertSessionDownload,
+  ViewerMouseEvent,
+  ViewerKeyEvent,
+  ViewerTouchEvent,
+} from "@shared/schema";
+import { cookieKey, diffCookies, toCookieEvents, type CookieDiff } from "./cookieDiff";
+import { getSessionLaunchProfile, findChromiumExecutable, buildLaunchArgs } from "./launchProfile";
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
 import type { WebSocket } from "ws";
+import path from "path";
+import fs from "fs";
+import { randomUUID } from "crypto";
 
 // Use stealth plugin to avoid detection
 puppeteer.use(StealthPlugin());
 
+// Root directory for persistent browser profiles
+const dataRoot = process.env.BROWSER_DATA_DIR || path.join(process.cwd(), "browser-data");
+
+/**
+ * Get the persistent profile (userDataDir) path for a session
+ */
+function getProfileDir(sessionId: string): string {
+  return path.join(dataRoot, "profiles", sessionId);
+}
+
+/**
+ * Get the directory a session's downloads are saved to
+ */
+function getDownloadDir(sessionId: string): string {
+  return path.join(dataRoot, "downloads", sessionId);
+}
+
+/**
+ * Run tar to completion, rejecting with its stderr on failure
+ */
+function runTar(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tar = spawn("tar", args);
+    let stderr = "";
+    tar.stderr.on("data", (chunk) => {
+      stderr += chunk.toString();
+    });
+    tar.on("error", reject);
+    tar.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`tar exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+/**
+ * Convert a stored cookie into the shape page.setCookie expects
+ */
+function toPuppeteerCookie(cookie: InsertCookie, sessionUrl: string): CookieParam {
+  // A domain without a leading dot is a host-only cookie, which only a URL can recreate
+  const hostOnly = !!cookie.domain && !cookie.domain.startsWith(".");
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    // Cookies without a domain are scoped to the session's URL
+    url: hostOnly ? `https://${cookie.domain}${cookie.path || "/"}` : cookie.domain ? undefined : sessionUrl,
+    domain: hostOnly ? undefined : cookie.domain || undefined,
+    path: cookie.path || undefined,
+    expires: cookie.expires ? new Date(cookie.expires).getTime() / 1000 : undefined,
+    httpOnly: cookie.httpOnly || undefined,
+    secure: cookie.secure || undefined,
+    sameSite: cookie.sameSite || undefined,
+  };
+}
+
+/**
+ * Fill in the domain and path the browser reports for a cookie set without them
+ */
+function scopeCookie(cookie: InsertCookie, urls: string[]): InsertCookie {
+  let domain = cookie.domain || null;
+  for (const url of urls) {
+    if (domain) break;
+    try {
+      domain = new URL(url).hostname || null;
+    } catch {
+      // Not a URL a cookie can belong to, such as about:blank
+    }
+  }
+  return { ...cookie, domain, path: cookie.path || "/" };
+}
+
+/**
+ * Viewport for a session's pages; a device preset wins over the launch profile's scale factor
+ */
+function sessionViewport(session: BrowserSession, profile: LaunchProfile): Viewport {
+  return {
+    width: session.viewportWidth || 1920,
+    height: session.viewportHeight || 1080,
+    deviceScaleFactor: session.deviceEmulation?.deviceScaleFactor ?? profile.deviceScaleFactor,
+    isMobile: session.deviceEmulation?.isMobile ?? false,
+    hasTouch: session.deviceEmulation?.hasTouch ?? false,
+  };
+}
+
 // Store active browser instances and pages
-const activeBrowsers = new Map<string, {
+interface BrowserInstance {
+  userId: string;
   browser: Browser;
+  // The active tab: the one being screencast and receiving input
   page: Page;
+  activeTabId: string;
+  tabs: Map<string, Page>;
   cdpSession?: CDPSession;
   streamClients: Set<WebSocket>;
-  mouseButtonPressed: boolean;
-}>();
+  paused: boolean;
+  controlSessions: Map<Page, CDPSession>;
+  saveTimer?: NodeJS.Timeout;
+  // Screencast frames sent to viewers since launch, for the frame rate metric
+  framesSent: number;
+  // Last input, navigation, viewer attach or page request, and when it was last stored
+  lastActivityAt: number;
+  activityPersistedAt: number;
+  // Dialogs waiting for a viewer or API answer
+  dialogs: Map<string, OpenDialog>;
+  // The file chooser waiting for files, if any; a new one replaces it
+  fileChooser?: OpenFileChooser;
+  // What the last press landed on, to describe the chooser it opens
+  fileInputProbe?: FileInputProbe;
+}
+
+interface OpenFileChooser {
+  chooser: FileChooser;
+  info: PendingFileChooser;
+}
+
+interface FileInputProbe {
+  at: number;
+  // The accept list of the file input under the pointer, or null when there isn't one
+  accept: Promise<string[] | null>;
+}
+
+// How long after a press a chooser opening is attributed to it
+const FILE_INPUT_PROBE_MS = 2000;
+
+interface OpenDialog {
+  dialog: Dialog;
+  info: PendingDialog;
+  timer: NodeJS.Timeout;
+}
+
+// A download Chromium is still reporting progress for
+interface LiveDownload {
+  download: SessionDownload;
+  // Storage writes for this download, chained so they land in order
+  saving: Promise<unknown>;
+  reportedAt: number;
+}
+
+// Downloads in progress, keyed by Chromium's download GUID
+const liveDownloads = new Map<string, LiveDownload>();
+
+// How often download progress is stored and sent to viewers
+const DOWNLOAD_PROGRESS_MS = 1000;
+
+// Used for sessions that haven't chosen a dialog policy
+const DEFAULT_DIALOG_POLICY: DialogPolicy = { mode: "ask", timeoutSeconds: 60, timeoutAction: "dismiss" };
+
+// Raw readings the metrics collector turns into a sample
+export interface SessionResourceSnapshot {
+  // Chromium's main process, the root of the session's process tree
+  pid?: number;
+  framesSent: number;
+  jsHeapUsedBytes?: number;
+  jsHeapTotalBytes?: number;
+  domNodes?: number;
+}
+
+const activeBrowsers = new Map<string, BrowserInstance>();
+
+// In-flight cookie saves per session, chained so they never overlap
+const cookieSaves = new Map<string, Promise<void>>();
+
+// How long input must be idle before cookies and web storage are saved
+const STATE_SAVE_DEBOUNCE_MS = 2000;
+
+// When each session was recently restarted after a crash, for the restart policy window
+const restartHistory = new Map<string, number[]>();
+
+// Pending crash restarts, cancelled when the session is started or stopped by hand
+const restartTimers = new Map<string, NodeJS.Timeout>();
+
+// Sessions launching right now, by owner, so they count against capacity
+const startingSessions = new Map<string, string>();
+
+// Sessions waiting for capacity, in the order they asked to start
+const startQueue: string[] = [];
+let queueTimer: NodeJS.Timeout | undefined;
+let queueDrain: Promise<void> | undefined;
+let queueDrainRequested = false;
+
+// Activity is kept in memory and written to storage at most this often
+const ACTIVITY_PERSIST_MS = 30 * 1000;
+
+// How often a non-empty queue is re-checked, so idle sessions can be evicted as they age
+const QUEUE_RECHECK_MS = 30 * 1000;
+
+interface SessionLimits {
+  // 0 means unlimited
+  maxConcurrent: number;
+  maxPerUser: number;
+  // Sessions idle this long may be stopped to make room; 0 disables eviction
+  evictIdleMs: number;
+}
+
+/**
+ * Read capacity limits from MAX_CONCURRENT_SESSIONS, MAX_SESSIONS_PER_USER and
+ * SESSION_EVICT_IDLE_MINUTES
+ */
+function getSessionLimits(): SessionLimits {
+  const readInt = (name: string, fallback: string) =>
+    Math.max(0, parseInt(process.env[name] || fallback, 10) || 0);
+
+  return {
+    maxConcurrent: readInt("MAX_CONCURRENT_SESSIONS", "10"),
+    maxPerUser: readInt("MAX_SESSIONS_PER_USER", "0"),
+    evictIdleMs: readInt("SESSION_EVICT_IDLE_MINUTES", "0") * 60 * 1000,
+  };
+}
 
 export class BrowserSessionManager {
   /**
@@ -25,76 +265,71 @@ export class BrowserSessionManager {
    */
   async startSession(sessionId: string): Promise<void> {
     // Check if session is already running
-    if (activeBrowsers.has(sessionId)) {
+    if (activeBrowsers.has(sessionId) || startingSessions.has(sessionId)) {
       console.log(`Session ${sessionId} is already running`);
       return;
     }
+    this.cancelRestart(sessionId);
+    this.removeFromQueue(sessionId);
 
     const session = await storage.getBrowserSession(sessionId);
     if (!session) {
       throw new Error("Session not found");
     }
 
+    startingSessions.set(sessionId, session.userId);
+    let browser: Browser | undefined;
     try {
-      // Find Chromium executable in Nix store
-      let executablePath: string | undefined;
-      try {
-        // Try to find chromium in the Nix store
-        const chromiumPath = execSync('which chromium 2>/dev/null || echo ""').toString().trim();
-        if (chromiumPath) {
-          executablePath = chromiumPath;
-          console.log(`Using Chromium from: ${executablePath}`);
-        } else {
-          throw new Error('Chromium not found in PATH');
-        }
-      } catch (e) {
-        console.error('Failed to find Chromium executable:', e);
-        throw new Error('Chromium is not installed. Please ensure Nix dependencies are properly configured.');
+      // Session settings layered over the global default
+      const profile = await getSessionLaunchProfile(session);
+      const executablePath = findChromiumExecutable(profile.executablePath);
+      console.log(`Using Chromium from: ${executablePath}`);
+
+      // Keep the profile on disk for sessions that persist it
+      let userDataDir: string | undefined;
+      if (session.persistProfile) {
+        userDataDir = getProfileDir(sessionId);
+        fs.mkdirSync(userDataDir, { recursive: true });
       }
 
       // Launch browser
-      const browser = await puppeteer.launch({
-        headless: true,
+      browser = await puppeteer.launch({
+        headless: profile.headless ?? true,
         executablePath: executablePath,
-        args: [
-          "--no-sandbox",
-          "--disable-setuid-sandbox",
-          "--disable-dev-shm-usage",
-          "--disable-gpu",
-          "--disable-software-rasterizer",
-          "--disable-extensions",
-        ],
+        userDataDir,
+        // Applies to popups and new tabs as well as the first page
+        defaultViewport: sessionViewport(session, profile),
+        args: buildLaunchArgs(profile),
       });
 
-      const page = await browser.newPage();
-
-      // Set viewport
-      await page.setViewport({
-        width: session.viewportWidth || 1920,
-        height: session.viewportHeight || 1080,
-      });
+      try {
+        await this.enableDownloads(sessionId, browser);
+      } catch (error) {
+        console.error(`Failed to enable downloads for session ${sessionId}:`, error);
+      }
 
-      // Set user agent if provided
-      if (session.userAgent) {
-        await page.setUserAgent(session.userAgent);
+      // Geolocation is only reported to the session's own site
+      if (profile.geolocation) {
+        try {
+          await browser.defaultBrowserContext().overridePermissions(new URL(session.url).origin, ["geolocation"]);
+        } catch (error) {
+          console.error(`Failed to grant geolocation for session ${sessionId}:`, error);
+        }
       }
 
+      const page = await browser.newPage();
+      await this.preparePage(page, session);
+
       // Load cookies from storage
       const cookies = await storage.getSessionCookies(sessionId);
       if (cookies.length > 0) {
-        const puppeteerCookies = cookies.map((cookie) => ({
-          name: cookie.name,
-          value: cookie.value,
-          domain: cookie.domain || undefined,
-          path: cookie.path || undefined,
-          expires: cookie.expires ? new Date(cookie.expires).getTime() / 1000 : undefined,
-          httpOnly: cookie.httpOnly || undefined,
-          secure: cookie.secure || undefined,
-          sameSite: cookie.sameSite as any,
-        }));
+        const puppeteerCookies = cookies.map((cookie) => toPuppeteerCookie(cookie, session.url));
         await page.setCookie(...puppeteerCookies);
       }
 
+      // Restore localStorage/sessionStorage before the real navigation
+      await this.restoreWebStorage(sessionId, page);
+
       // Navigate to URL if provided
       if (session.url && session.url.trim() !== "" && session.url !== "about:blank") {
         await page.goto(session.url, { waitUntil: "domcontentloaded", timeout: 60000 });
@@ -103,27 +338,283 @@ export class BrowserSessionManager {
         await page.goto("about:blank", { waitUntil: "load", timeout: 5000 });
       }
 
-      // Save cookies back to storage
-      await this.saveCookies(sessionId, page);
+      // Save cookies and web storage back to storage
+      await this.saveSessionState(sessionId, page);
 
       // Store browser and page instance
-      activeBrowsers.set(sessionId, { browser, page, streamClients: new Set(), mouseButtonPressed: false });
+      const activeTabId = randomUUID();
+      const instance: BrowserInstance = {
+        userId: session.userId,
+        browser,
+        page,
+        activeTabId,
+        tabs: new Map(),
+        streamClients: new Set(),
+        paused: false,
+        controlSessions: new Map(),
+        framesSent: 0,
+        lastActivityAt: Date.now(),
+        activityPersistedAt: 0,
+        dialogs: new Map(),
+      };
+      this.registerTab(sessionId, instance, page, activeTabId);
+      activeBrowsers.set(sessionId, instance);
+
+      // Track popups and target=_blank links as tabs
+      browser.on("targetcreated", (target: Target) => this.handleTargetCreated(sessionId, target));
+
+      // Chromium exiting on its own is a crash; deliberate closes remove the instance first
+      browser.on("disconnected", () => this.handleCrash(sessionId, instance, "Browser disconnected"));
 
       // Update session status
       await storage.updateBrowserSession(sessionId, {
         status: "running",
+        lastActivityAt: new Date(instance.lastActivityAt),
       });
+      instance.activityPersistedAt = instance.lastActivityAt;
+      await recordRunStart(sessionId);
 
       // Set up periodic cookie saving
-      this.setupPeriodicCookieSave(sessionId, page);
+      this.setupPeriodicCookieSave(sessionId);
 
       console.log(`Session ${sessionId} started successfully`);
     } catch (error) {
       console.error(`Failed to start session ${sessionId}:`, error);
+
+      // A browser that launched but failed setup would otherwise run on, uncounted by the capacity limits
+      const instance = activeBrowsers.get(sessionId);
+      if (instance && instance.browser === browser) {
+        activeBrowsers.delete(sessionId);
+        this.dropDialogs(instance);
+      }
+      await browser?.close().catch(() => {});
+
       await storage.updateBrowserSession(sessionId, {
         status: "error",
+        lastError: `Failed to start: ${error instanceof Error ? error.message : String(error)}`,
+        lastErrorAt: new Date(),
       });
       throw error;
+    } finally {
+      startingSessions.delete(sessionId);
+    }
+  }
+
+  /**
+   * Start a session if there is capacity, otherwise add it to the start queue
+   *
+   * Resolves to the session's queue position, or null once it is running.
+   */
+  async requestStart(sessionId: string): Promise<number | null> {
+    if (activeBrowsers.has(sessionId) || startingSessions.has(sessionId)) {
+      return null;
+    }
+    if (startQueue.includes(sessionId)) {
+      return this.getQueuePosition(sessionId);
+    }
+
+    const session = await storage.getBrowserSession(sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+
+    // Sessions already waiting go first
+    if (startQueue.length === 0 && (await this.makeRoom(session)) === null) {
+      await this.startSession(sessionId);
+      return null;
+    }
+
+    startQueue.push(sessionId);
+    await storage.updateBrowserSession(sessionId, { status: "queued" });
+    if (!queueTimer) {
+      queueTimer = setInterval(() => this.drainStartQueue(), QUEUE_RECHECK_MS);
+    }
+
+    // Sessions ahead may be waiting on their own user's quota, so this one can still go now
+    await this.drainStartQueue();
+
+    const position = this.getQueuePosition(sessionId);
+    if (position !== null) {
+      console.log(`Session ${sessionId} queued at position ${position}`);
+    }
+    return position;
+  }
+
+  /**
+   * Position of a session in the start queue (1 is next), or null if it isn't queued
+   */
+  getQueuePosition(sessionId: string): number | null {
+    const index = startQueue.indexOf(sessionId);
+    return index === -1 ? null : index + 1;
+  }
+
+  private removeFromQueue(sessionId: string): void {
+    const index = startQueue.indexOf(sessionId);
+    if (index !== -1) {
+      startQueue.splice(index, 1);
+    }
+    if (startQueue.length === 0 && queueTimer) {
+      clearInterval(queueTimer);
+      queueTimer = undefined;
+    }
+  }
+
+  /**
+   * Count running and launching sessions, optionally for one user
+   */
+  private countSessions(userId?: string): number {
+    const owners = [
+      ...Array.from(activeBrowsers.values()).map((instance) => instance.userId),
+      ...Array.from(startingSessions.values()),
+    ];
+    return owners.filter((owner) => !userId || owner === userId).length;
+  }
+
+  /**
+   * Which limit stops a session from starting, if any
+   */
+  private findCapacityLimit(userId: string, limits: SessionLimits): "global" | "user" | null {
+    if (limits.maxConcurrent > 0 && this.countSessions() >= limits.maxConcurrent) {
+      return "global";
+    }
+    if (limits.maxPerUser > 0 && this.countSessions(userId) >= limits.maxPerUser) {
+      return "user";
+    }
+    return null;
+  }
+
+  /**
+   * Evict idle sessions until the session fits, returning the limit still in the way
+   */
+  private async makeRoom(session: BrowserSession): Promise<"global" | "user" | null> {
+    const limits = getSessionLimits();
+
+    let limit = this.findCapacityLimit(session.userId, limits);
+    while (limit && limits.evictIdleMs > 0) {
+      // A quota only frees up when one of the user's own sessions stops
+      const evicted = await this.evictIdleSession(limits.evictIdleMs, limit === "user" ? session.userId : undefined);
+      if (!evicted) {
+        break;
+      }
+      limit = this.findCapacityLimit(session.userId, limits);
+    }
+    return limit;
+  }
+
+  /**
+   * Stop the least recently active session that has been idle long enough and
+   * has nobody watching it
+   */
+  private async evictIdleSession(minIdleMs: number, userId?: string): Promise<boolean> {
+    const candidates = Array.from(activeBrowsers.entries())
+      .filter(([, instance]) => !userId || instance.userId === userId)
+      .map(([sessionId, instance]) => ({ sessionId, instance, idleMs: this.getIdleMs(sessionId) ?? 0 }))
+      .filter(({ idleMs }) => idleMs >= minIdleMs);
+
+    const [oldest] = candidates.sort((a, b) => b.idleMs - a.idleMs);
+    if (!oldest) {
+      return false;
+    }
+
+    const lastActivityAt = new Date(oldest.instance.lastActivityAt);
+    console.log(`Evicting idle session ${oldest.sessionId} to make room`);
+    // Stopping saves cookies and web storage first
+    await this.stopSession(oldest.sessionId, { drainQueue: false, reason: "evicted" });
+    await storage.createSessionWarning({
+      sessionId: oldest.sessionId,
+      type: "evicted",
+      message: "Stopped to make room for another session",
+      details: { lastActivityAt },
+    });
+    return true;
+  }
+
+  /**
+   * Record user or page activity, storing it at most every ACTIVITY_PERSIST_MS
+   */
+  private markActivity(sessionId: string): void {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      return;
+    }
+
+    const now = Date.now();
+    instance.lastActivityAt = now;
+    if (now - instance.activityPersistedAt < ACTIVITY_PERSIST_MS) {
+      return;
+    }
+
+    instance.activityPersistedAt = now;
+    storage.updateBrowserSession(sessionId, { lastActivityAt: new Date(now) }).catch((error) => {
+      console.error(`Failed to store activity for session ${sessionId}:`, error);
+    });
+  }
+
+  /**
+   * How long a running session has gone without activity; watched sessions are never idle
+   */
+  getIdleMs(sessionId: string): number | undefined {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      return undefined;
+    }
+    return instance.streamClients.size > 0 ? 0 : Date.now() - instance.lastActivityAt;
+  }
+
+  /**
+   * Start queued sessions while there is capacity
+   */
+  private drainStartQueue(): Promise<void> {
+    // Coalesce overlapping requests into one more pass after the current one
+    if (queueDrain) {
+      queueDrainRequested = true;
+      return queueDrain;
+    }
+
+    queueDrain = (async () => {
+      do {
+        queueDrainRequested = false;
+        try {
+          await this.drainStartQueueOnce();
+        } catch (error) {
+          console.error("Failed to drain the session start queue:", error);
+        }
+      } while (queueDrainRequested);
+    })().finally(() => {
+      queueDrain = undefined;
+    });
+    return queueDrain;
+  }
+
+  private async drainStartQueueOnce(): Promise<void> {
+    let index = 0;
+    while (index < startQueue.length) {
+      const sessionId = startQueue[index];
+      const session = await storage.getBrowserSession(sessionId);
+      if (!session || session.status !== "queued") {
+        this.removeFromQueue(sessionId);
+        continue;
+      }
+
+      const limit = await this.makeRoom(session);
+      if (limit === "global") {
+        return;
+      }
+      if (limit === "user") {
+        // Let other users' sessions through while this one waits for its quota
+        index++;
+        continue;
+      }
+
+      this.removeFromQueue(sessionId);
+      try {
+        await this.startSession(sessionId);
+        console.log(`Started queued session ${sessionId}`);
+        settleQueuedRestore(sessionId);
+      } catch (error) {
+        console.error(`Failed to start queued session ${sessionId}:`, error);
+        settleQueuedRestore(sessionId, error);
+      }
     }
   }
 
@@ -136,8 +627,16 @@ export class BrowserSessionManager {
       throw new Error("Session not running");
     }
 
+    if (instance.paused) {
+      return;
+    }
+
     // Save cookies before pausing
-    await this.saveCookies(sessionId, instance.page);
+    await this.saveSessionState(sessionId, instance.page);
+
+    // Freeze the page so timers, websockets and network stop consuming resources
+    await this.freezePage(instance);
+    instance.paused = true;
 
     // Update session status
     await storage.updateBrowserSession(sessionId, {
@@ -150,7 +649,13 @@ export class BrowserSessionManager {
   /**
    * Stop a browser session
    */
-  async stopSession(sessionId: string): Promise<void> {
+  async stopSession(
+    sessionId: string,
+    { drainQueue = true, reason = "stopped" }: { drainQueue?: boolean; reason?: SessionRunEndReason } = {},
+  ): Promise<void> {
+    this.cancelRestart(sessionId);
+    this.removeFromQueue(sessionId);
+
     const instance = activeBrowsers.get(sessionId);
     if (!instance) {
       // Just update status if not running
@@ -161,20 +666,123 @@ export class BrowserSessionManager {
     }
 
     // Save cookies before stopping
-    await this.saveCookies(sessionId, instance.page);
-
-    // Close browser
-    await instance.browser.close();
+    await this.saveSessionState(sessionId, instance.page);
 
-    // Remove from active sessions
+    // Remove from active sessions first, so closing isn't mistaken for a crash
     activeBrowsers.delete(sessionId);
+    this.dropDialogs(instance);
+
+    // Close browser (a frozen page does not need thawing first)
+    await instance.browser.close();
 
     // Update session status
     await storage.updateBrowserSession(sessionId, {
       status: "stopped",
     });
+    await recordRunEnd(sessionId, reason);
 
     console.log(`Session ${sessionId} stopped`);
+    if (drainQueue) {
+      this.drainStartQueue();
+    }
+  }
+
+  /**
+   * Hibernate a session: close Chromium but keep its persistent profile
+   */
+  async hibernateSession(sessionId: string): Promise<void> {
+    const session = await storage.getBrowserSession(sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    if (!session.persistProfile) {
+      throw new Error("Session does not persist its browser profile");
+    }
+
+    this.cancelRestart(sessionId);
+    this.removeFromQueue(sessionId);
+
+    const instance = activeBrowsers.get(sessionId);
+    if (instance) {
+      // Save cookies before closing
+      await this.saveSessionState(sessionId, instance.page);
+      activeBrowsers.delete(sessionId);
+      this.dropDialogs(instance);
+      await instance.browser.close();
+    }
+
+    await storage.updateBrowserSession(sessionId, {
+      status: "hibernated",
+    });
+    await recordRunEnd(sessionId, "hibernated");
+
+    console.log(`Session ${sessionId} hibernated`);
+    this.drainStartQueue();
+  }
+
+  /**
+   * Check if a session has a persistent profile on disk
+   */
+  hasProfile(sessionId: string): boolean {
+    return fs.existsSync(getProfileDir(sessionId));
+  }
+
+  /**
+   * Stream a session's persistent profile as a gzipped tarball
+   */
+  exportProfile(sessionId: string): ChildProcessWithoutNullStreams {
+    if (activeBrowsers.has(sessionId)) {
+      throw new Error("Session must be stopped or hibernated to export its profile");
+    }
+
+    const profileDir = getProfileDir(sessionId);
+    if (!fs.existsSync(profileDir)) {
+      throw new Error("Session has no stored profile");
+    }
+
+    return spawn("tar", ["-czf", "-", "-C", profileDir, "."]);
+  }
+
+  /**
+   * Replace a session's persistent profile with the contents of a tarball
+   */
+  async importProfile(sessionId: string, tarballPath: string): Promise<void> {
+    if (activeBrowsers.has(sessionId)) {
+      throw new Error("Session must be stopped or hibernated to import a profile");
+    }
+
+    const profileDir = getProfileDir(sessionId);
+    await fs.promises.rm(profileDir, { recursive: true, force: true });
+    await fs.promises.mkdir(profileDir, { recursive: true });
+
+    try {
+      await runTar(["-xzf", tarballPath, "-C", profileDir]);
+    } catch (error) {
+      // Don't leave a half-extracted profile behind
+      await fs.promises.rm(profileDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    console.log(`Imported profile for session ${sessionId}`);
+  }
+
+  /**
+   * Delete a session's persistent profile from disk
+   */
+  async wipeProfile(sessionId: string): Promise<void> {
+    if (activeBrowsers.has(sessionId)) {
+      throw new Error("Session must be stopped or hibernated to wipe its profile");
+    }
+
+    await fs.promises.rm(getProfileDir(sessionId), { recursive: true, force: true });
+    console.log(`Wiped profile for session ${sessionId}`);
+  }
+
+  /**
+   * Delete a session's downloaded files from disk
+   */
+  async wipeDownloads(sessionId: string): Promise<void> {
+    await fs.promises.rm(getDownloadDir(sessionId), { recursive: true, force: true });
   }
 
   /**
@@ -183,255 +791,1415 @@ export class BrowserSessionManager {
   async resumeSession(sessionId: string): Promise<void> {
     const instance = activeBrowsers.get(sessionId);
     if (instance) {
-      // Already running, just update status
+      // Thaw a frozen page in place, without reloading it
+      if (instance.paused) {
+        await this.thawPage(instance);
+        instance.paused = false;
+        console.log(`Session ${sessionId} resumed`);
+      }
+      this.markActivity(sessionId);
+
       await storage.updateBrowserSession(sessionId, {
         status: "running",
       });
       return;
     }
 
-    // Restart the session
-    await this.startSession(sessionId);
+    // Restart the session, waiting in the queue if there is no room
+    await this.requestStart(sessionId);
   }
 
   /**
    * Navigate to a URL in an active session
    */
   async navigateSession(sessionId: string, url: string): Promise<void> {
-    const instance = activeBrowsers.get(sessionId);
-    if (!instance) {
-      throw new Error("Session not running");
-    }
+    const instance = this.getInteractiveInstance(sessionId);
 
+    this.markActivity(sessionId);
     await instance.page.goto(url, { waitUntil: "domcontentloaded", timeout: 60000 });
 
     // Update session URL and save cookies
     await storage.updateBrowserSession(sessionId, {
       url,
     });
-    await this.saveCookies(sessionId, instance.page);
+    await this.saveSessionState(sessionId, instance.page);
   }
 
   /**
    * Go back in browser history
    */
   async goBack(sessionId: string): Promise<void> {
-    const instance = activeBrowsers.get(sessionId);
-    if (!instance) {
-      throw new Error("Session not running");
-    }
+    const instance = this.getInteractiveInstance(sessionId);
 
+    this.markActivity(sessionId);
     await instance.page.goBack({ waitUntil: "domcontentloaded", timeout: 30000 });
-    await this.saveCookies(sessionId, instance.page);
+    await this.saveSessionState(sessionId, instance.page);
+  }
+
+  /**
+   * Go forward in browser history
+   */
+  async goForward(sessionId: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+
+    this.markActivity(sessionId);
+    await instance.page.goForward({ waitUntil: "domcontentloaded", timeout: 30000 });
+    await this.saveSessionState(sessionId, instance.page);
+  }
+
+  /**
+   * Reload current page
+   */
+  async refresh(sessionId: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+
+    this.markActivity(sessionId);
+    await instance.page.reload({ waitUntil: "domcontentloaded", timeout: 30000 });
+    await this.saveSessionState(sessionId, instance.page);
+  }
+
+  /**
+   * Get screenshot of active session
+   */
+  async getScreenshot(sessionId: string): Promise<Buffer> {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      throw new Error("Session not running");
+    }
+
+    const screenshot = await instance.page.screenshot({
+      type: "png",
+      fullPage: false,
+    });
+
+    return screenshot as Buffer;
+  }
+
+  /**
+   * Click at coordinates in active session
+   */
+  async clickAt(sessionId: string, x: number, y: number): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+
+    this.markActivity(sessionId);
+    this.probeFileInput(instance, x, y);
+    await instance.page.mouse.click(x, y);
+    this.scheduleSessionStateSave(sessionId);
+  }
+
+  /**
+   * Type text in active session
+   */
+  async typeText(sessionId: string, text: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+
+    this.markActivity(sessionId);
+    await instance.page.keyboard.type(text);
+  }
+
+  /**
+   * Press a key in active session
+   */
+  async pressKey(sessionId: string, key: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+
+    this.markActivity(sessionId);
+    await instance.page.keyboard.press(key as any);
+  }
+
+  /**
+   * Upload file to active session
+   */
+  async uploadFile(sessionId: string, filePaths: string[], selector?: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+    this.markActivity(sessionId);
+
+    if (!selector) {
+      if (!instance.fileChooser) {
+        throw new Error("No file chooser is open. Click the page's upload control first, or pass a selector.");
+      }
+      await this.acceptFileChooser(sessionId, instance.fileChooser.info.id, filePaths);
+      return;
+    }
+
+    const input = await instance.page.$(selector);
+    if (!input) {
+      throw new Error(`No element matches ${selector}`);
+    }
+
+    try {
+      const { isFileInput, multiple } = await input.evaluate((el) => ({
+        isFileInput: el instanceof HTMLInputElement && el.type === "file",
+        multiple: el instanceof HTMLInputElement && el.multiple,
+      }));
+      if (!isFileInput) {
+        throw new Error(`${selector} is not a file input`);
+      }
+      if (!multiple && filePaths.length > 1) {
+        throw new Error(`${selector} accepts a single file`);
+      }
+
+      // Chromium fires the input and change events itself
+      await (input as ElementHandle<HTMLInputElement>).uploadFile(...filePaths);
+      console.log(`Uploaded ${filePaths.length} file(s) to ${selector} in session ${sessionId}`);
+    } finally {
+      await input.dispose();
+    }
+
+    this.scheduleSessionStateSave(sessionId);
+  }
+
+
+  /**
+   * Set a cookie in the live page, if the session is running
+   */
+  private async applyCookie(sessionId: string, cookie: InsertCookie): Promise<void> {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      return;
+    }
+
+    await instance.page.setCookie(toPuppeteerCookie(cookie, instance.page.url()));
+  }
+
+  /**
+   * Store cookies and set them in the live page, replacing any stored cookie with the same identity
+   */
+  storeCookies(sessionId: string, cookies: InsertCookie[]): Promise<Cookie[]> {
+    // Queued with cookie saves so a sync can't diff against a half-written set
+    return this.queueCookieWrite(sessionId, async () => {
+      const session = await storage.getBrowserSession(sessionId);
+      const pageUrl = activeBrowsers.get(sessionId)?.page.url();
+      const urls = [pageUrl, session?.url].filter((url): url is string => !!url);
+
+      const storedByKey = new Map(
+        (await storage.getSessionCookies(sessionId)).map((cookie) => [cookieKey(cookie), cookie])
+      );
+      const saved: Cookie[] = [];
+      const diff: CookieDiff = { added: [], updated: [], removed: [] };
+      for (const data of cookies) {
+        const cookie = scopeCookie(data, urls);
+        const key = cookieKey(cookie);
+        const existing = storedByKey.get(key);
+        const stored = existing
+          ? await storage.updateCookie(existing.id, cookie)
+          : await storage.createCookie(cookie);
+        if (existing) {
+          diff.updated.push({ before: existing, after: stored });
+        } else {
+          diff.added.push(stored);
+        }
+        storedByKey.set(key, stored);
+        await this.applyCookie(sessionId, stored);
+        saved.push(stored);
+      }
+      await this.recordCookieEvents(sessionId, diff, pageUrl ?? null);
+      return saved;
+    });
+  }
+
+  /**
+   * Change a stored cookie and its copy in the live page
+   */
+  updateCookie(sessionId: string, cookieId: string, updates: Partial<InsertCookie>): Promise<Cookie> {
+    return this.queueCookieWrite(sessionId, async () => {
+      const cookie = await storage.getCookie(cookieId);
+      if (!cookie || cookie.sessionId !== sessionId) {
+        throw new Error("Cookie not found");
+      }
+
+      // Identity changes leave the old cookie behind in the page, so remove it first
+      const renamed =
+        (updates.name !== undefined && updates.name !== cookie.name) ||
+        (updates.domain !== undefined && updates.domain !== cookie.domain) ||
+        (updates.path !== undefined && updates.path !== cookie.path);
+      if (renamed) {
+        await this.removeCookie(sessionId, cookie);
+      }
+
+      const updated = await storage.updateCookie(cookieId, updates);
+      await this.applyCookie(sessionId, updated);
+      await this.recordCookieEvents(
+        sessionId,
+        renamed
+          ? { added: [updated], updated: [], removed: [cookie] }
+          : { added: [], updated: [{ before: cookie, after: updated }], removed: [] },
+        activeBrowsers.get(sessionId)?.page.url() ?? null
+      );
+      return updated;
+    });
+  }
+
+  /**
+   * Delete a stored cookie and its copy in the live page
+   */
+  deleteCookie(sessionId: string, cookieId: string): Promise<void> {
+    return this.queueCookieWrite(sessionId, async () => {
+      const cookie = await storage.getCookie(cookieId);
+      if (!cookie || cookie.sessionId !== sessionId) {
+        throw new Error("Cookie not found");
+      }
+
+      await this.removeCookie(sessionId, cookie);
+      await storage.deleteCookie(cookieId);
+      await this.recordCookieEvents(
+        sessionId,
+        { added: [], updated: [], removed: [cookie] },
+        activeBrowsers.get(sessionId)?.page.url() ?? null
+      );
+    });
+  }
+
+  /**
+   * Add a cookie change to the session's history, with where the page was at the time
+   */
+  private async recordCookieEvents(sessionId: string, diff: CookieDiff, url: string | null): Promise<void> {
+    for (const event of toCookieEvents(diff, sessionId, url)) {
+      await storage.createCookieEvent(event);
+    }
+  }
+
+  /**
+   * Delete a cookie from the live page, if the session is running
+   */
+  private async removeCookie(sessionId: string, cookie: Cookie): Promise<void> {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      return;
+    }
+
+    await instance.page.deleteCookie({
+      name: cookie.name,
+      url: cookie.domain ? undefined : instance.page.url(),
+      domain: cookie.domain || undefined,
+      path: cookie.path || undefined,
+    });
+  }
+
+  /**
+   * Get current URL of active session
+   */
+  async getCurrentUrl(sessionId: string): Promise<string> {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      throw new Error("Session not running");
+    }
+
+    return instance.page.url();
+  }
+
+  /**
+   * Get a tab's CDP session for commands outside the screencast, opening it on first use
+   */
+  private async getControlSession(instance: BrowserInstance, page: Page): Promise<CDPSession> {
+    let client = instance.controlSessions.get(page);
+    if (!client) {
+      client = await page.createCDPSession();
+      instance.controlSessions.set(page, client);
+    }
+    return client;
+  }
+
+  /**
+   * Insert text from the viewer's clipboard at the focus, the way a paste does
+   */
+  async pasteText(sessionId: string, text: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+    await this.requireClipboardSync(sessionId);
+
+    this.markActivity(sessionId);
+    const client = await this.getControlSession(instance, instance.page);
+    await client.send('Input.insertText', { text });
+    this.scheduleSessionStateSave(sessionId);
+  }
+
+  /**
+   * Read the text selected in the active tab, including inside text fields and frames
+   */
+  async copySelection(sessionId: string): Promise<string> {
+    const instance = this.getInteractiveInstance(sessionId);
+    await this.requireClipboardSync(sessionId);
+
+    this.markActivity(sessionId);
+    for (const frame of instance.page.frames()) {
+      try {
+        const text = await frame.evaluate(() => {
+          const active = document.activeElement;
+          // Text field selections aren't part of the document selection
+          if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) {
+            // Browsers never copy out of password fields either
+            if (active.type === "password" || active.selectionStart === null || active.selectionEnd === null) {
+              return "";
+            }
+            return active.value.slice(active.selectionStart, active.selectionEnd);
+          }
+          return window.getSelection()?.toString() ?? "";
+        });
+        if (text) {
+          return text;
+        }
+      } catch (error) {
+        // The frame navigated or detached; try the rest
+      }
+    }
+    return "";
+  }
+
+  /**
+   * Throw unless the session allows clipboard sync
+   */
+  private async requireClipboardSync(sessionId: string): Promise<void> {
+    const session = await storage.getBrowserSession(sessionId);
+    if (!session?.clipboardSync) {
+      throw new Error("Clipboard sync is disabled for this session");
+    }
+  }
+
+  /**
+   * Freeze every tab: disable scripts, freeze its lifecycle and take the network offline
+   */
+  private async freezePage(instance: BrowserInstance): Promise<void> {
+    for (const page of Array.from(instance.tabs.values())) {
+      await this.freezeTab(instance, page);
+    }
+  }
+
+  /**
+   * Freeze one tab, for pausing and for tabs that open while the session is paused
+   */
+  private async freezeTab(instance: BrowserInstance, page: Page): Promise<void> {
+    const client = await this.getControlSession(instance, page);
+
+    await client.send('Network.enable');
+    await client.send('Network.emulateNetworkConditions', {
+      offline: true,
+      latency: 0,
+      downloadThroughput: 0,
+      uploadThroughput: 0,
+    });
+    await client.send('Emulation.setScriptExecutionDisabled', { value: true });
+    await client.send('Page.setWebLifecycleState', { state: 'frozen' });
+  }
+
+  /**
+   * Undo freezePage, restoring scripts, lifecycle and network
+   */
+  private async thawPage(instance: BrowserInstance): Promise<void> {
+    for (const [page, client] of Array.from(instance.controlSessions.entries())) {
+      if (page.isClosed()) {
+        instance.controlSessions.delete(page);
+        continue;
+      }
+
+      await client.send('Page.setWebLifecycleState', { state: 'active' });
+      await client.send('Emulation.setScriptExecutionDisabled', { value: false });
+      await client.send('Network.emulateNetworkConditions', {
+        offline: false,
+        latency: 0,
+        downloadThroughput: -1,
+        uploadThroughput: -1,
+      });
+    }
+  }
+
+  /**
+   * List a session's tabs
+   */
+  async listTabs(sessionId: string): Promise<BrowserTab[]> {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      throw new Error("Session not running");
+    }
+
+    return this.describeTabs(instance);
+  }
+
+  /**
+   * Open a new tab and make it the active one
+   */
+  async openTab(sessionId: string, url?: string): Promise<BrowserTab> {
+    const instance = this.getInteractiveInstance(sessionId);
+
+    const page = await instance.browser.newPage();
+    const tabId = this.registerTab(sessionId, instance, page);
+
+    const session = await storage.getBrowserSession(sessionId);
+    if (session) {
+      await this.preparePage(page, session);
+    }
+    if (url) {
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 60000 });
+    }
+
+    await this.switchToTab(instance, tabId);
+    const tabs = await this.describeTabs(instance);
+    return tabs.find(tab => tab.id === tabId)!;
+  }
+
+  /**
+   * Make a tab the active one: screencast and input follow it
+   */
+  async activateTab(sessionId: string, tabId: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+    if (!instance.tabs.has(tabId)) {
+      throw new Error("Tab not found");
+    }
+
+    await this.switchToTab(instance, tabId);
+  }
+
+  /**
+   * Close a tab, activating another if it was the active one
+   */
+  async closeTab(sessionId: string, tabId: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+    const page = instance.tabs.get(tabId);
+    if (!page) {
+      throw new Error("Tab not found");
+    }
+    if (instance.tabs.size === 1) {
+      throw new Error("Cannot close the last tab");
+    }
+
+    instance.tabs.delete(tabId);
+    instance.controlSessions.delete(page);
+    const chooser = instance.fileChooser?.info;
+    if (chooser?.tabId === tabId) {
+      instance.fileChooser = undefined;
+      this.broadcast(instance, { type: 'fileChooserClosed', id: chooser.id });
+    }
+    if (instance.activeTabId === tabId) {
+      const remaining = Array.from(instance.tabs.keys());
+      await this.switchToTab(instance, remaining[remaining.length - 1]);
+    }
+
+    await page.close();
+    this.broadcastTabs(instance);
+  }
+
+  /**
+   * Apply the session's user agent and launch profile to a new page
+   */
+  private async preparePage(page: Page, session: BrowserSession): Promise<void> {
+    const profile = await getSessionLaunchProfile(session);
+
+    // The viewport may have changed since launch, so don't rely on the default
+    await page.setViewport(sessionViewport(session, profile));
+    if (session.userAgent) {
+      await page.setUserAgent(session.userAgent);
+    }
+    if (profile.proxy?.username) {
+      await page.authenticate({
+        username: profile.proxy.username,
+        password: profile.proxy.password ?? "",
+      });
+    }
+    if (profile.locale) {
+      await page.setExtraHTTPHeaders({ "Accept-Language": profile.locale });
+    }
+    if (profile.timezone) {
+      await page.emulateTimezone(profile.timezone);
+    }
+    if (profile.geolocation) {
+      await page.setGeolocation(profile.geolocation);
+    }
+  }
+
+  /**
+   * Track a page as a tab, returning its ID (an already tracked page keeps its ID)
+   */
+  private registerTab(sessionId: string, instance: BrowserInstance, page: Page, tabId = randomUUID()): string {
+    for (const [existingId, tab] of Array.from(instance.tabs.entries())) {
+      if (tab === page) {
+        return existingId;
+      }
+    }
+
+    instance.tabs.set(tabId, page);
+    page.on("close", () => this.handleTabClosed(sessionId, instance, tabId));
+    // A dead renderer leaves the tab unusable, so the whole session is treated as crashed
+    page.on("error", (error: Error) => this.handleCrash(sessionId, instance, `Page crashed: ${error.message}`));
+    page.on("load", () => this.broadcastTabs(instance));
+    page.on("dialog", (dialog: Dialog) => this.handleDialog(sessionId, instance, tabId, dialog));
+    this.watchFileChooser(sessionId, instance, tabId, page);
+    // Page-initiated loads count as activity; images, fonts and the like don't
+    page.on("request", (request: HTTPRequest) => {
+      if (["document", "xhr", "fetch"].includes(request.resourceType())) {
+        this.markActivity(sessionId);
+      }
+    });
+    return tabId;
+  }
+
+  /**
+   * Track pages the browser opens by itself (popups, target=_blank links)
+   */
+  private async handleTargetCreated(sessionId: string, target: Target): Promise<void> {
+    if (target.type() !== "page") {
+      return;
+    }
+
+    try {
+      const instance = activeBrowsers.get(sessionId);
+      const page = await target.page();
+      if (!instance || !page || Array.from(instance.tabs.values()).includes(page)) {
+        return;
+      }
+
+      const tabId = this.registerTab(sessionId, instance, page);
+
+      const session = await storage.getBrowserSession(sessionId);
+      if (session) {
+        await this.preparePage(page, session);
+      }
+
+      // A paused session's pages stay frozen, including ones opened since
+      if (instance.paused) {
+        await this.freezeTab(instance, page);
+      }
+
+      // Show popups the page opened, the way a desktop browser would
+      if (target.opener() && !instance.paused) {
+        await this.switchToTab(instance, tabId);
+      } else {
+        this.broadcastTabs(instance);
+      }
+      console.log(`Tracking new tab ${tabId} in session ${sessionId}`);
+    } catch (error) {
+      console.error(`Failed to track new tab in session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Forget a tab the page closed itself, keeping at least one tab open
+   */
+  private async handleTabClosed(sessionId: string, instance: BrowserInstance, tabId: string): Promise<void> {
+    const page = instance.tabs.get(tabId);
+    if (!page || !instance.browser.connected || activeBrowsers.get(sessionId) !== instance) {
+      return;
+    }
+
+    instance.tabs.delete(tabId);
+    instance.controlSessions.delete(page);
+
+    try {
+      if (instance.tabs.size === 0) {
+        const blank = await instance.browser.newPage();
+        this.registerTab(sessionId, instance, blank);
+      }
+      if (instance.activeTabId === tabId) {
+        const remaining = Array.from(instance.tabs.keys());
+        await this.switchToTab(instance, remaining[remaining.length - 1]);
+      } else {
+        this.broadcastTabs(instance);
+      }
+    } catch (error) {
+      console.error(`Failed to switch tabs after close in session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Point the screencast and input at another tab
+   */
+  private async switchToTab(instance: BrowserInstance, tabId: string): Promise<void> {
+    const page = instance.tabs.get(tabId);
+    if (!page) {
+      throw new Error("Tab not found");
+    }
+
+    instance.page = page;
+    instance.activeTabId = tabId;
+    await page.bringToFront();
+
+    await this.restartScreencastStream(instance);
+    this.broadcastTabs(instance);
+  }
+
+  /**
+   * Apply the stored viewport and user agent to every tab of a running session
+   */
+  async applyViewportSettings(sessionId: string): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+    const session = await storage.getBrowserSession(sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+
+    const profile = await getSessionLaunchProfile(session);
+    const viewport = sessionViewport(session, profile);
+
+    // Clearing the user agent falls back to the browser's own, minus the headless marker
+    const userAgent = session.userAgent
+      || (await instance.browser.userAgent()).replace("HeadlessChrome/", "Chrome/");
+
+    for (const page of Array.from(instance.tabs.values())) {
+      await page.setViewport(viewport);
+      await page.setUserAgent(userAgent);
+    }
+
+    // Frames keep their old size until the screencast is restarted
+    await this.restartScreencastStream(instance);
+    console.log(`Applied ${viewport.width}x${viewport.height} viewport to session ${sessionId}`);
+  }
+
+  /**
+   * Restart the screencast on the active tab at its current size
+   */
+  private async restartScreencastStream(instance: BrowserInstance): Promise<void> {
+    const previous = instance.cdpSession;
+    if (previous) {
+      instance.cdpSession = undefined;
+      try {
+        await previous.send('Page.stopScreencast');
+        await previous.detach();
+      } catch {
+        // The tab may already be closed
+      }
+    }
+    if (instance.streamClients.size > 0) {
+      await this.startScreencastStream(instance);
+    }
+  }
+
+  /**
+   * Describe the tabs of a running session
+   */
+  private async describeTabs(instance: BrowserInstance): Promise<BrowserTab[]> {
+    return Promise.all(
+      Array.from(instance.tabs.entries()).map(async ([id, page]) => ({
+        id,
+        url: page.url(),
+        // Frozen pages can't evaluate document.title
+        title: instance.paused ? "" : await page.title().catch(() => ""),
+        active: id === instance.activeTabId,
+      }))
+    );
+  }
+
+  /**
+   * Send the current tab list to every viewer
+   */
+  private async broadcastTabs(instance: BrowserInstance): Promise<void> {
+    if (instance.streamClients.size === 0) {
+      return;
+    }
+
+    try {
+      this.broadcast(instance, { type: 'tabs', tabs: await this.describeTabs(instance) });
+    } catch (error) {
+      console.error('Error sending tab list:', error);
+    }
+  }
+
+  /**
+   * Send a message to every connected viewer
+   */
+  private broadcast(instance: BrowserInstance, message: object): void {
+    const data = JSON.stringify(message);
+    instance.streamClients.forEach((client) => {
+      if (client.readyState === 1) {
+        client.send(data);
+      }
+    });
+  }
+
+  /**
+   * Save the browser's downloads into the session's download directory and track their progress
+   */
+  private async enableDownloads(sessionId: string, browser: Browser): Promise<void> {
+    const downloadPath = getDownloadDir(sessionId);
+    await fs.promises.mkdir(downloadPath, { recursive: true });
+
+    const client = await browser.target().createCDPSession();
+    // Files are saved under their GUID; the name the page suggested is kept in the record
+    await client.send("Browser.setDownloadBehavior", {
+      behavior: "allowAndName",
+      downloadPath,
+      eventsEnabled: true,
+    });
+    client.on("Browser.downloadWillBegin", (event) => this.handleDownloadStarted(sessionId, event));
+    client.on("Browser.downloadProgress", (event) => this.handleDownloadProgress(event));
+    // Anything still downloading when the browser goes away won't finish
+    browser.on("disconnected", () => this.interruptDownloads(sessionId));
+  }
+
+  /**
+   * Record a download the page started and tell viewers about it
+   */
+  private handleDownloadStarted(sessionId: string, event: Protocol.Browser.DownloadWillBeginEvent): void {
+    const record: InsertSessionDownload = {
+      id: event.guid,
+      sessionId,
+      url: event.url,
+      fileName: event.suggestedFilename || "download",
+      state: "in_progress",
+      receivedBytes: 0,
+      totalBytes: null,
+    };
+    const download: SessionDownload = { ...record, createdAt: new Date(), completedAt: null };
+
+    liveDownloads.set(event.guid, {
+      download,
+      saving: storage.createSessionDownload(record).catch((error) => {
+        console.error(`Failed to record download ${event.guid} in session ${sessionId}:`, error);
+      }),
+      reportedAt: Date.now(),
+    });
+    this.markActivity(sessionId);
+    this.broadcastDownload(download);
+    console.log(`Session ${sessionId} started downloading ${download.fileName}`);
+  }
+
+  /**
+   * Track a download's progress, storing and broadcasting it at most every DOWNLOAD_PROGRESS_MS until it ends
+   */
+  private handleDownloadProgress(event: Protocol.Browser.DownloadProgressEvent): void {
+    const live = liveDownloads.get(event.guid);
+    if (!live) {
+      return;
+    }
+
+    const { download } = live;
+    download.receivedBytes = event.receivedBytes;
+    // Chromium reports 0 when the server didn't send a length
+    download.totalBytes = event.totalBytes || null;
+
+    if (event.state !== "inProgress") {
+      liveDownloads.delete(event.guid);
+      download.state = event.state === "completed" ? "completed" : "canceled";
+      download.completedAt = new Date();
+    } else if (Date.now() - live.reportedAt < DOWNLOAD_PROGRESS_MS) {
+      return;
+    }
+
+    live.reportedAt = Date.now();
+    this.saveDownload(live);
+    this.broadcastDownload(download);
+  }
+
+  /**
+   * Mark a session's unfinished downloads as interrupted
+   */
+  private interruptDownloads(sessionId: string): void {
+    for (const [guid, live] of Array.from(liveDownloads.entries())) {
+      if (live.download.sessionId !== sessionId) {
+        continue;
+      }
+      liveDownloads.delete(guid);
+      live.download.state = "interrupted";
+      live.download.completedAt = new Date();
+      this.saveDownload(live);
+    }
+  }
+
+  /**
+   * Queue a write of a download's current progress behind its earlier writes
+   */
+  private saveDownload(live: LiveDownload): void {
+    const { id, sessionId, state, receivedBytes, totalBytes, completedAt } = live.download;
+    live.saving = live.saving
+      .then(() => storage.updateSessionDownload(id, { state, receivedBytes, totalBytes, completedAt }))
+      .catch((error) => {
+        console.error(`Failed to update download ${id} in session ${sessionId}:`, error);
+      });
+  }
+
+  /**
+   * Send a download's progress to the session's viewers
+   */
+  private broadcastDownload(download: SessionDownload): void {
+    const instance = activeBrowsers.get(download.sessionId);
+    if (instance) {
+      this.broadcast(instance, { type: 'download', download });
+    }
+  }
+
+  /**
+   * List a session's downloads, newest first, with live progress for unfinished ones
+   */
+  async listDownloads(sessionId: string): Promise<SessionDownload[]> {
+    const downloads = await storage.getSessionDownloads(sessionId);
+    return downloads.map((download) => {
+      const live = liveDownloads.get(download.id);
+      if (live) {
+        return { ...live.download, createdAt: download.createdAt };
+      }
+      // The server went down before Chromium reported how it ended
+      return download.state === "in_progress" ? { ...download, state: "interrupted" as const } : download;
+    });
+  }
+
+  /**
+   * Path of a finished download's file on disk
+   */
+  getDownloadFilePath(sessionId: string, downloadId: string): string {
+    return path.join(getDownloadDir(sessionId), path.basename(downloadId));
+  }
+
+  /**
+   * Answer a dialog by policy, or hold it for viewers until it times out
+   */
+  private async handleDialog(sessionId: string, instance: BrowserInstance, tabId: string, dialog: Dialog): Promise<void> {
+    const session = await storage.getBrowserSession(sessionId);
+    const policy = session?.dialogPolicy ?? DEFAULT_DIALOG_POLICY;
+    console.log(`Session ${sessionId} opened a ${dialog.type()} dialog (policy: ${policy.mode})`);
+
+    if (policy.mode !== "ask") {
+      await this.closeDialog(dialog, policy.mode === "accept");
+      return;
+    }
+
+    const now = Date.now();
+    const info: PendingDialog = {
+      id: randomUUID(),
+      tabId,
+      type: dialog.type() as PendingDialog["type"],
+      message: dialog.message(),
+      defaultValue: dialog.defaultValue(),
+      openedAt: new Date(now),
+      expiresAt: new Date(now + policy.timeoutSeconds * 1000),
+    };
+    const timer = setTimeout(() => {
+      console.log(`Dialog ${info.id} in session ${sessionId} timed out`);
+      this.resolveDialog(instance, info.id, policy.timeoutAction === "accept").catch((error) => {
+        console.error(`Failed to answer timed out dialog in session ${sessionId}:`, error);
+      });
+    }, policy.timeoutSeconds * 1000);
+
+    instance.dialogs.set(info.id, { dialog, info, timer });
+    this.broadcast(instance, { type: 'dialog', dialog: info });
+  }
+
+  /**
+   * Forget a closing browser's pending dialogs so their timeouts don't fire after it's gone
+   */
+  private dropDialogs(instance: BrowserInstance): void {
+    instance.dialogs.forEach((open) => clearTimeout(open.timer));
+    instance.dialogs.clear();
+  }
+
+  /**
+   * Accept or dismiss a dialog; prompts are accepted with their default value unless given text
+   */
+  private async closeDialog(dialog: Dialog, accept: boolean, promptText?: string): Promise<void> {
+    try {
+      if (accept) {
+        await dialog.accept(promptText ?? dialog.defaultValue());
+      } else {
+        await dialog.dismiss();
+      }
+    } catch (error) {
+      // The page may have navigated or closed the dialog itself
+      console.error('Error answering dialog:', error);
+    }
+  }
+
+  private async resolveDialog(instance: BrowserInstance, dialogId: string, accept: boolean, promptText?: string): Promise<void> {
+    const open = instance.dialogs.get(dialogId);
+    if (!open) {
+      throw new Error("Dialog not found");
+    }
+
+    instance.dialogs.delete(dialogId);
+    clearTimeout(open.timer);
+    await this.closeDialog(open.dialog, accept, promptText);
+    this.broadcast(instance, { type: 'dialogClosed', id: dialogId });
+  }
+
+  /**
+   * Keep a tab's file chooser interception armed, so native choosers come to viewers instead
+   */
+  private watchFileChooser(sessionId: string, instance: BrowserInstance, tabId: string, page: Page): void {
+    const closed = new AbortController();
+    page.once("close", () => closed.abort());
+
+    const wait = () => {
+      page
+        .waitForFileChooser({ timeout: 0, signal: closed.signal })
+        .then((chooser) => {
+          // Re-arm first so a second chooser isn't missed while this one is handled
+          wait();
+          return this.handleFileChooser(sessionId, instance, tabId, chooser);
+        })
+        .catch((error) => {
+          if (!closed.signal.aborted) {
+            console.error(`File chooser interception failed in session ${sessionId}:`, error);
+          }
+        });
+    };
+    wait();
+  }
+
+  /**
+   * Note the accept list of a file input under a press, before the press is sent
+   */
+  private probeFileInput(instance: BrowserInstance, x: number, y: number): void {
+    const accept = instance.page
+      .evaluate((px, py) => {
+        const target = document.elementFromPoint(px, py);
+        if (!target) return null;
+        const label = target.closest("label");
+        const candidates = [target, label?.control, target.querySelector('input[type="file"]')];
+        const input = candidates.find(
+          (el): el is HTMLInputElement => el instanceof HTMLInputElement && el.type === "file"
+        );
+        return input ? input.accept : null;
+      }, x, y)
+      .then((list) => (list === null ? null : list.split(",").map((type) => type.trim()).filter(Boolean)))
+      .catch(() => null);
+
+    instance.fileInputProbe = { at: Date.now(), accept };
+  }
+
+  /**
+   * Hold a chooser the page opened and describe it to viewers
+   */
+  private async handleFileChooser(
+    sessionId: string,
+    instance: BrowserInstance,
+    tabId: string,
+    chooser: FileChooser
+  ): Promise<void> {
+    const previous = instance.fileChooser;
+    if (previous) {
+      await this.closeFileChooser(instance, previous.info.id);
+    }
+
+    const probe = instance.fileInputProbe;
+    const accept = probe && Date.now() - probe.at < FILE_INPUT_PROBE_MS ? await probe.accept : null;
+    const info: PendingFileChooser = {
+      id: randomUUID(),
+      tabId,
+      multiple: chooser.isMultiple(),
+      accept: accept ?? [],
+      openedAt: new Date(),
+    };
+
+    instance.fileChooser = { chooser, info };
+    this.broadcast(instance, { type: 'fileChooser', chooser: info });
+    console.log(`File chooser opened in session ${sessionId}`);
+  }
+
+  /**
+   * Cancel a chooser if it is still open, and tell viewers it's gone
+   */
+  private async closeFileChooser(instance: BrowserInstance, chooserId: string): Promise<void> {
+    const open = instance.fileChooser;
+    if (!open || open.info.id !== chooserId) {
+      return;
+    }
+
+    instance.fileChooser = undefined;
+    this.broadcast(instance, { type: 'fileChooserClosed', id: chooserId });
+    try {
+      await open.chooser.cancel();
+    } catch (error) {
+      // The tab navigated or closed underneath it
+      console.log(`Failed to cancel file chooser: ${error}`);
+    }
   }
 
   /**
-   * Go forward in browser history
+   * Get the file chooser waiting for files, if any
    */
-  async goForward(sessionId: string): Promise<void> {
+  getFileChooser(sessionId: string): PendingFileChooser | null {
     const instance = activeBrowsers.get(sessionId);
     if (!instance) {
       throw new Error("Session not running");
     }
-
-    await instance.page.goForward({ waitUntil: "domcontentloaded", timeout: 30000 });
-    await this.saveCookies(sessionId, instance.page);
+    return instance.fileChooser?.info ?? null;
   }
 
   /**
-   * Reload current page
+   * Answer the open file chooser with files on the server's disk
    */
-  async refresh(sessionId: string): Promise<void> {
-    const instance = activeBrowsers.get(sessionId);
-    if (!instance) {
-      throw new Error("Session not running");
+  async acceptFileChooser(sessionId: string, chooserId: string, filePaths: string[]): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+    const open = instance.fileChooser;
+    if (!open || open.info.id !== chooserId) {
+      throw new Error("File chooser not found");
+    }
+    if (!open.info.multiple && filePaths.length > 1) {
+      throw new Error("This file chooser accepts a single file");
     }
 
-    await instance.page.reload({ waitUntil: "domcontentloaded", timeout: 30000 });
-    await this.saveCookies(sessionId, instance.page);
+    this.markActivity(sessionId);
+    instance.fileChooser = undefined;
+    this.broadcast(instance, { type: 'fileChooserClosed', id: chooserId });
+    await open.chooser.accept(filePaths);
+    console.log(`Answered file chooser in session ${sessionId} with ${filePaths.length} file(s)`);
+    this.scheduleSessionStateSave(sessionId);
   }
 
   /**
-   * Get screenshot of active session
+   * Dismiss the open file chooser without choosing anything
    */
-  async getScreenshot(sessionId: string): Promise<Buffer> {
+  async cancelFileChooser(sessionId: string, chooserId: string): Promise<void> {
     const instance = activeBrowsers.get(sessionId);
     if (!instance) {
       throw new Error("Session not running");
     }
+    if (instance.fileChooser?.info.id !== chooserId) {
+      throw new Error("File chooser not found");
+    }
 
-    const screenshot = await instance.page.screenshot({
-      type: "png",
-      fullPage: false,
-    });
-
-    return screenshot as Buffer;
+    this.markActivity(sessionId);
+    await this.closeFileChooser(instance, chooserId);
   }
 
   /**
-   * Click at coordinates in active session
+   * List dialogs waiting for an answer
    */
-  async clickAt(sessionId: string, x: number, y: number): Promise<void> {
+  listDialogs(sessionId: string): PendingDialog[] {
     const instance = activeBrowsers.get(sessionId);
     if (!instance) {
       throw new Error("Session not running");
     }
-
-    await instance.page.mouse.click(x, y);
-    await this.saveCookies(sessionId, instance.page);
+    return Array.from(instance.dialogs.values()).map((open) => open.info);
   }
 
   /**
-   * Type text in active session
+   * Answer a pending dialog from a viewer or the API
    */
-  async typeText(sessionId: string, text: string): Promise<void> {
+  async answerDialog(sessionId: string, dialogId: string, accept: boolean, promptText?: string): Promise<void> {
     const instance = activeBrowsers.get(sessionId);
     if (!instance) {
       throw new Error("Session not running");
     }
 
-    await instance.page.keyboard.type(text);
+    this.markActivity(sessionId);
+    await this.resolveDialog(instance, dialogId, accept, promptText);
   }
 
   /**
-   * Press a key in active session
+   * Check if session is paused (frozen)
    */
-  async pressKey(sessionId: string, key: string): Promise<void> {
-    const instance = activeBrowsers.get(sessionId);
-    if (!instance) {
-      throw new Error("Session not running");
-    }
-
-    await instance.page.keyboard.press(key as any);
+  isSessionPaused(sessionId: string): boolean {
+    return activeBrowsers.get(sessionId)?.paused ?? false;
   }
 
   /**
-   * Upload file to active session
+   * Get a running instance that accepts input, rejecting paused sessions
    */
-  async uploadFile(sessionId: string, filePath: string): Promise<void> {
+  private getInteractiveInstance(sessionId: string): BrowserInstance {
     const instance = activeBrowsers.get(sessionId);
     if (!instance) {
       throw new Error("Session not running");
     }
-
-    try {
-      // Wait for file input to be available on the page
-      await instance.page.waitForSelector('input[type="file"]', {
-        timeout: 5000,
-        visible: false // Don't require it to be visible since some inputs are hidden
-      });
-    } catch (error) {
-      throw new Error("No file input found on page. Please navigate to a page with a file upload field.");
+    if (instance.paused) {
+      throw new Error("Session is paused");
     }
+    return instance;
+  }
 
-    // Find all file input elements on the page
-    const fileInputs = await instance.page.$$('input[type="file"]');
+  /**
+   * Save cookies and web storage from page to storage
+   */
+  private async saveSessionState(sessionId: string, page: Page): Promise<void> {
+    await this.saveCookies(sessionId, page);
 
-    if (fileInputs.length === 0) {
-      throw new Error("No file input found on page");
+    // Scripts can't run in a frozen page, and cookies are all it can have changed
+    if (!activeBrowsers.get(sessionId)?.paused) {
+      await this.saveWebStorage(sessionId, page);
     }
+  }
+
+  /**
+   * Save localStorage, sessionStorage and IndexedDB summaries for every origin in the page
+   */
+  private async saveWebStorage(sessionId: string, page: Page): Promise<void> {
+    try {
+      const snapshots = new Map<string, InsertWebStorageSnapshot>();
+
+      for (const frame of page.frames()) {
+        try {
+          const snapshot = await frame.evaluate(async () => {
+            const readStorage = (store: Storage) => {
+              const entries: Record<string, string> = {};
+              for (let i = 0; i < store.length; i++) {
+                const key = store.key(i);
+                if (key !== null) {
+                  entries[key] = store.getItem(key) ?? "";
+                }
+              }
+              return entries;
+            };
 
-    console.log(`Found ${fileInputs.length} file input(s) on page`);
+            let indexedDb: IndexedDbSummary | null = null;
+            try {
+              const databases = await indexedDB.databases();
+              const estimate = await navigator.storage?.estimate?.();
+              indexedDb = {
+                databases: databases
+                  .filter(db => !!db.name)
+                  .map(db => ({ name: db.name!, version: db.version ?? 0 })),
+                usageBytes: estimate?.usage,
+              };
+            } catch {
+              // IndexedDB may be unavailable (e.g. opaque origins)
+            }
 
-    // Find the first visible and enabled file input, or just use the first one
-    let targetInput = fileInputs[0]; // Default to first input
+            return {
+              origin: location.origin,
+              localStorage: readStorage(window.localStorage),
+              sessionStorage: readStorage(window.sessionStorage),
+              indexedDb,
+            };
+          });
 
-    for (const input of fileInputs) {
-      try {
-        const isVisible = await input.isVisible();
-        const isEnabled = await input.evaluate((el: HTMLInputElement) => !el.disabled);
+          if (!snapshot.origin.startsWith("http") || snapshots.has(snapshot.origin)) {
+            continue;
+          }
 
-        if (isVisible && isEnabled) {
-          targetInput = input;
-          console.log('Found visible and enabled file input');
-          break;
+          snapshots.set(snapshot.origin, { sessionId, ...snapshot });
+        } catch {
+          // Storage access throws in sandboxed or detached frames; skip them
         }
-      } catch (err) {
-        console.log('Error checking input visibility:', err);
-        // Continue to next input
       }
+
+      for (const snapshot of Array.from(snapshots.values())) {
+        await storage.upsertWebStorage(snapshot);
+      }
+
+      console.log(`Saved web storage for ${snapshots.size} origin(s) in session ${sessionId}`);
+    } catch (error) {
+      console.error(`Failed to save web storage for session ${sessionId}:`, error);
     }
+  }
 
-    // Upload the file
-    console.log(`Uploading file: ${filePath}`);
-    await targetInput.uploadFile(filePath);
-    console.log('File uploaded to input element');
+  /**
+   * Restore saved localStorage and sessionStorage into a fresh page
+   *
+   * Each origin is visited with its document request answered locally, so the
+   * storage is written without hitting the real site.
+   */
+  private async restoreWebStorage(sessionId: string, page: Page): Promise<void> {
+    const snapshots = await storage.getSessionWebStorage(sessionId);
+    if (snapshots.length === 0) {
+      return;
+    }
 
-    // Trigger change and input events to ensure the page recognizes the upload
-    await targetInput.evaluate((el: HTMLInputElement) => {
-      // Trigger both change and input events for compatibility
-      const changeEvent = new Event('change', { bubbles: true });
-      const inputEvent = new Event('input', { bubbles: true });
-      el.dispatchEvent(inputEvent);
-      el.dispatchEvent(changeEvent);
-    });
-    console.log('Triggered change events');
+    const onRequest = (request: HTTPRequest) => {
+      if (request.isNavigationRequest()) {
+        request.respond({ status: 200, contentType: "text/html", body: "<html></html>" });
+      } else {
+        request.abort();
+      }
+    };
 
-    // Try to click any associated labels to better simulate user interaction
     try {
-      await targetInput.evaluate((el: HTMLInputElement) => {
-        const label = el.closest('label') || document.querySelector(`label[for="${el.id}"]`);
-        if (label) {
-          (label as HTMLElement).click();
+      await page.setRequestInterception(true);
+      page.on("request", onRequest);
+
+      for (const snapshot of snapshots) {
+        try {
+          await page.goto(snapshot.origin, { waitUntil: "load", timeout: 10000 });
+          await page.evaluate((local, session) => {
+            for (const [key, value] of Object.entries(local)) {
+              window.localStorage.setItem(key, value);
+            }
+            for (const [key, value] of Object.entries(session)) {
+              window.sessionStorage.setItem(key, value);
+            }
+          }, snapshot.localStorage, snapshot.sessionStorage);
+        } catch (error) {
+          console.error(`Failed to restore web storage for ${snapshot.origin}:`, error);
         }
-      });
-    } catch (err) {
-      // Ignore errors here
+      }
+
+      console.log(`Restored web storage for ${snapshots.length} origin(s) in session ${sessionId}`);
+    } finally {
+      page.off("request", onRequest);
+      await page.setRequestInterception(false);
     }
+  }
 
-    // Small delay to let the page process the file
-    await new Promise(resolve => setTimeout(resolve, 1000));
+  /**
+   * Save cookies from page to storage
+   */
+  private saveCookies(sessionId: string, page: Page): Promise<void> {
+    return this.queueCookieWrite(sessionId, () => this.syncCookies(sessionId, page));
+  }
 
-    console.log('File upload completed successfully');
+  /**
+   * Run a cookie write after the session's earlier ones finish
+   */
+  private queueCookieWrite<T>(sessionId: string, write: () => Promise<T>): Promise<T> {
+    // Serialize writes per session so overlapping diffs can't insert the same cookie twice
+    const previous = cookieSaves.get(sessionId) ?? Promise.resolve();
+    const result = previous.then(write);
+    // A failed write must not stop the ones queued behind it
+    const next = result.then(() => undefined, () => undefined);
+    cookieSaves.set(sessionId, next);
+    next.then(() => {
+      if (cookieSaves.get(sessionId) === next) {
+        cookieSaves.delete(sessionId);
+      }
+    });
+    return result;
   }
 
   /**
-   * Get current URL of active session
+   * Write only the cookies that were added, changed or removed since the last save
    */
-  async getCurrentUrl(sessionId: string): Promise<string> {
-    const instance = activeBrowsers.get(sessionId);
-    if (!instance) {
-      throw new Error("Session not running");
-    }
+  private async syncCookies(sessionId: string, page: Page): Promise<void> {
+    try {
+      // The whole jar, not just the active tab's URL, or other sites' cookies would look deleted
+      const puppeteerCookies = await page.browserContext().cookies();
+      const liveCookies: InsertCookie[] = puppeteerCookies.map((cookie) => ({
+        sessionId,
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain || null,
+        path: cookie.path || null,
+        // Session cookies report an expiry of -1
+        expires: cookie.expires > 0 ? new Date(cookie.expires * 1000) : null,
+        httpOnly: cookie.httpOnly || false,
+        secure: cookie.secure || false,
+        sameSite: (cookie.sameSite as InsertCookie["sameSite"]) || null,
+      }));
+
+      const storedCookies = await storage.getSessionCookies(sessionId);
+      const diff = diffCookies(storedCookies, liveCookies);
+      const { added, updated, removed } = diff;
+
+      for (const cookie of added) {
+        await storage.createCookie(cookie);
+      }
+      for (const { before, after } of updated) {
+        await storage.updateCookie(before.id, after);
+      }
+      for (const cookie of removed) {
+        await storage.deleteCookie(cookie.id);
+      }
 
-    return instance.page.url();
+      await this.recordCookieEvents(sessionId, diff, page.url());
+
+      if (added.length || updated.length || removed.length) {
+        console.log(
+          `Synced cookies for session ${sessionId}: ${added.length} added, ${updated.length} changed, ${removed.length} removed`
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to save cookies for session ${sessionId}:`, error);
+    }
   }
 
   /**
-   * Save cookies from page to storage
+   * Mark a crashed session as errored and restart it if its policy allows
    */
-  private async saveCookies(sessionId: string, page: Page): Promise<void> {
+  private async handleCrash(sessionId: string, instance: BrowserInstance, reason: string): Promise<void> {
+    // Ignore deliberate closes and further events from an already handled crash
+    if (activeBrowsers.get(sessionId) !== instance) {
+      return;
+    }
+    activeBrowsers.delete(sessionId);
+    clearTimeout(instance.saveTimer);
+    this.dropDialogs(instance);
+    console.error(`Session ${sessionId} crashed: ${reason}`);
+
+    instance.streamClients.forEach((client) => client.close(1011, "Browser crashed"));
+    instance.streamClients.clear();
+
     try {
-      const puppeteerCookies = await page.cookies();
-
-      // Clear existing cookies for this session
-      await storage.clearSessionCookies(sessionId);
-
-      // Save new cookies
-      for (const cookie of puppeteerCookies) {
-        await storage.createCookie({
-          sessionId,
-          name: cookie.name,
-          value: cookie.value,
-          domain: cookie.domain || null,
-          path: cookie.path || null,
-          expires: cookie.expires ? new Date(cookie.expires * 1000) : null,
-          httpOnly: cookie.httpOnly || false,
-          secure: cookie.secure || false,
-          sameSite: (cookie.sameSite as any) || null,
-        });
+      if (instance.browser.connected) {
+        await instance.browser.close();
       }
+    } catch (error) {
+      console.error(`Failed to close crashed browser for session ${sessionId}:`, error);
+    }
+    this.drainStartQueue();
 
-      console.log(`Saved ${puppeteerCookies.length} cookies for session ${sessionId}`);
+    try {
+      const session = await storage.updateBrowserSession(sessionId, {
+        status: "error",
+        lastError: reason,
+        lastErrorAt: new Date(),
+      });
+      await recordRunEnd(sessionId, "crashed");
+      await this.scheduleRestart(sessionId, session.restartPolicy, reason);
     } catch (error) {
-      console.error(`Failed to save cookies for session ${sessionId}:`, error);
+      console.error(`Failed to record crash for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Queue a restart with exponential backoff, unless the policy's restart limit is reached
+   */
+  private async scheduleRestart(sessionId: string, policy: RestartPolicy | null, reason: string): Promise<void> {
+    if (!policy?.enabled) {
+      return;
+    }
+
+    const now = Date.now();
+    const windowMs = policy.windowMinutes * 60 * 1000;
+    const recent = (restartHistory.get(sessionId) ?? []).filter((time) => now - time < windowMs);
+    restartHistory.set(sessionId, recent);
+
+    if (recent.length >= policy.maxRestarts) {
+      console.error(`Session ${sessionId} hit its restart limit, not restarting`);
+      await storage.updateBrowserSession(sessionId, {
+        lastError: `${reason} (gave up after ${recent.length} restarts in ${policy.windowMinutes} minutes)`,
+      });
+      return;
+    }
+
+    const delay = Math.min(policy.maxBackoffMs, policy.initialBackoffMs * 2 ** recent.length);
+    recent.push(now);
+    console.log(`Restarting session ${sessionId} in ${delay}ms`);
+
+    this.cancelRestart(sessionId);
+    restartTimers.set(sessionId, setTimeout(() => this.restartCrashedSession(sessionId), delay));
+  }
+
+  private async restartCrashedSession(sessionId: string): Promise<void> {
+    restartTimers.delete(sessionId);
+
+    // The user may have stopped or deleted the session in the meantime
+    const session = await storage.getBrowserSession(sessionId);
+    if (!session || session.status !== "error" || activeBrowsers.has(sessionId)) {
+      return;
+    }
+
+    await storage.updateBrowserSession(sessionId, { restartCount: session.restartCount + 1 });
+    try {
+      const position = await this.requestStart(sessionId);
+      console.log(position === null
+        ? `Session ${sessionId} restarted after a crash`
+        : `Session ${sessionId} queued for restart after a crash`);
+    } catch (error) {
+      const reason = `Restart failed: ${error instanceof Error ? error.message : String(error)}`;
+      await this.scheduleRestart(sessionId, session.restartPolicy, reason);
+    }
+  }
+
+  private cancelRestart(sessionId: string): void {
+    clearTimeout(restartTimers.get(sessionId));
+    restartTimers.delete(sessionId);
+  }
+
+  /**
+   * Save session state once input has been quiet for a moment
+   */
+  private scheduleSessionStateSave(sessionId: string): void {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      return;
     }
+
+    clearTimeout(instance.saveTimer);
+    instance.saveTimer = setTimeout(() => {
+      instance.saveTimer = undefined;
+      if (activeBrowsers.get(sessionId) === instance) {
+        this.saveSessionState(sessionId, instance.page);
+      }
+    }, STATE_SAVE_DEBOUNCE_MS);
   }
 
   /**
    * Set up periodic cookie saving (every 5 minutes)
    */
-  private setupPeriodicCookieSave(sessionId: string, page: Page): void {
+  private setupPeriodicCookieSave(sessionId: string): void {
     const interval = setInterval(async () => {
       const instance = activeBrowsers.get(sessionId);
       if (!instance) {
@@ -440,12 +2208,17 @@ export class BrowserSessionManager {
       }
 
       const session = await storage.getBrowserSession(sessionId);
-      if (!session || session.status !== "running") {
+      if (!session) {
         clearInterval(interval);
         return;
       }
 
-      await this.saveCookies(sessionId, page);
+      // Frozen pages have nothing new to save
+      if (instance.paused) {
+        return;
+      }
+
+      await this.saveSessionState(sessionId, instance.page);
     }, 5 * 60 * 1000); // 5 minutes
   }
 
@@ -456,6 +2229,40 @@ export class BrowserSessionManager {
     return activeBrowsers.size;
   }
 
+  /**
+   * IDs of all sessions with a running browser
+   */
+  getActiveSessionIds(): string[] {
+    return Array.from(activeBrowsers.keys());
+  }
+
+  /**
+   * Read a running session's process ID, frame counter and page metrics
+   */
+  async getResourceSnapshot(sessionId: string): Promise<SessionResourceSnapshot> {
+    const instance = activeBrowsers.get(sessionId);
+    if (!instance) {
+      throw new Error("Session not running");
+    }
+
+    const snapshot: SessionResourceSnapshot = {
+      pid: instance.browser.process()?.pid,
+      framesSent: instance.framesSent,
+    };
+
+    // Performance.getMetrics on the active tab
+    try {
+      const metrics = await instance.page.metrics();
+      snapshot.jsHeapUsedBytes = metrics.JSHeapUsedSize;
+      snapshot.jsHeapTotalBytes = metrics.JSHeapTotalSize;
+      snapshot.domNodes = metrics.Nodes;
+    } catch (error) {
+      console.error(`Failed to read page metrics for session ${sessionId}:`, error);
+    }
+
+    return snapshot;
+  }
+
   /**
    * Check if session is active
    */
@@ -470,8 +2277,11 @@ export class BrowserSessionManager {
     const entries = Array.from(activeBrowsers.entries());
     for (const [sessionId, instance] of entries) {
       try {
-        await this.saveCookies(sessionId, instance.page);
+        await this.saveSessionState(sessionId, instance.page);
+        activeBrowsers.delete(sessionId);
+        this.dropDialogs(instance);
         await instance.browser.close();
+        await recordRunEnd(sessionId, "shutdown");
       } catch (error) {
         console.error(`Failed to cleanup session ${sessionId}:`, error);
       }
@@ -491,59 +2301,87 @@ export class BrowserSessionManager {
 
     console.log(`Adding WebSocket client to session ${sessionId}`);
     instance.streamClients.add(ws);
+    this.markActivity(sessionId);
 
     if (!instance.cdpSession) {
       console.log(`Creating CDP session for ${sessionId}`);
       try {
-        const cdpSession = await instance.page.createCDPSession();
-        instance.cdpSession = cdpSession;
-
-        cdpSession.on('Page.screencastFrame', async (params: any) => {
-          try {
-            await cdpSession.send('Page.screencastFrameAck', {
-              sessionId: params.sessionId
-            });
-
-            const frameData = {
-              type: 'frame',
-              data: params.data,
-              metadata: params.metadata,
-            };
-
-            instance.streamClients.forEach((client) => {
-              if (client.readyState === 1) {
-                try {
-                  client.send(JSON.stringify(frameData));
-                } catch (error) {
-                  console.error('Error sending frame to client:', error);
-                }
-              }
-            });
-          } catch (error) {
-            console.error('Error handling screencast frame:', error);
-          }
-        });
-
-        const viewport = instance.page.viewport();
-        console.log(`Starting screencast with viewport ${viewport?.width}x${viewport?.height}`);
-
-        await cdpSession.send('Page.startScreencast', {
-          format: 'jpeg',
-          quality: 80,
-          maxWidth: viewport?.width || 1920,
-          maxHeight: viewport?.height || 1080,
-          everyNthFrame: 1,
-        });
-
+        await this.startScreencastStream(instance);
         console.log(`Screencast started successfully for session ${sessionId}`);
       } catch (error) {
         console.error(`Failed to start screencast for session ${sessionId}:`, error);
-        instance.cdpSession = undefined;
         throw error;
       }
     } else {
       console.log(`CDP session already exists for ${sessionId}, reusing it`);
     }
+
+    // Let the new viewer draw its tab strip and any dialogs already open
+    await this.broadcastTabs(instance);
+    instance.dialogs.forEach((open) => {
+      if (ws.readyState === 1) {
+        ws.send(JSON.stringify({ type: 'dialog', dialog: open.info }));
+      }
+    });
+    if (instance.fileChooser && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: 'fileChooser', chooser: instance.fileChooser.info }));
+    }
+  }
+
+  /**
+   * Start screencasting the active tab to the session's viewers
+   */
+  private async startScreencastStream(instance: BrowserInstance): Promise<void> {
+    const cdpSession = await instance.page.createCDPSession();
+    instance.cdpSession = cdpSession;
+
+    try {
+      cdpSession.on('Page.screencastFrame', async (params: any) => {
+        try {
+          await cdpSession.send('Page.screencastFrameAck', {
+            sessionId: params.sessionId
+          });
+
+          // Drop frames from a tab that is no longer active
+          if (instance.cdpSession !== cdpSession) {
+            return;
+          }
+
+          const frameData = {
+            type: 'frame',
+            data: params.data,
+            metadata: params.metadata,
+          };
+          instance.framesSent++;
+
+          instance.streamClients.forEach((client) => {
+            if (client.readyState === 1) {
+              try {
+                client.send(JSON.stringify(frameData));
+              } catch (error) {
+                console.error('Error sending frame to client:', error);
+              }
+            }
+          });
+        } catch (error) {
+          console.error('Error handling screencast frame:', error);
+        }
+      });
+
+      const viewport = instance.page.viewport();
+      console.log(`Starting screencast with viewport ${viewport?.width}x${viewport?.height}`);
+
+      await cdpSession.send('Page.startScreencast', {
+        format: 'jpeg',
+        quality: 80,
+        maxWidth: viewport?.width || 1920,
+        maxHeight: viewport?.height || 1080,
+        everyNthFrame: 1,
+      });
+    } catch (error) {
+      instance.cdpSession = undefined;
+      throw error;
+    }
   }
 
   /**
@@ -568,19 +2406,12 @@ export class BrowserSessionManager {
   }
 
   /**
-   * Dispatch mouse event via CDP
+   * Dispatch a viewer mouse event via CDP, with its buttons, click count and modifiers
+   *
+   * Wheel events scroll whatever is under the pointer, inner panes and canvases included.
    */
-  async dispatchMouseEvent(sessionId: string, type: string, x: number, y: number, button?: string): Promise<void> {
-    const instance = activeBrowsers.get(sessionId);
-    if (!instance?.page) {
-      throw new Error("Session not running");
-    }
-
-    const roundedX = Math.round(x);
-    const roundedY = Math.round(y);
-    const mouseButton = button || 'left';
-
-    console.log(`Dispatching mouse event: ${type} at (${roundedX}, ${roundedY}), button: ${mouseButton}`);
+  async dispatchMouseEvent(sessionId: string, event: ViewerMouseEvent): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
 
     try {
       // Check if page is still alive
@@ -588,51 +2419,30 @@ export class BrowserSessionManager {
         console.log(`Page is closed, ignoring mouse event`);
         return;
       }
+      this.markActivity(sessionId);
 
-      if (type === 'mouseMoved') {
-        await instance.page.mouse.move(roundedX, roundedY);
-      } else if (type === 'mousePressed') {
-        // Only press if not already pressed
-        if (!instance.mouseButtonPressed) {
-          await instance.page.mouse.move(roundedX, roundedY);
-          await instance.page.mouse.down({ button: mouseButton as any });
-          instance.mouseButtonPressed = true;
-        } else {
-          console.log('Mouse button already pressed, skipping mousePressed event');
-        }
-      } else if (type === 'mouseReleased') {
-        // Only release if currently pressed
-        if (instance.mouseButtonPressed) {
-          await instance.page.mouse.up({ button: mouseButton as any });
-          instance.mouseButtonPressed = false;
-
-          // Check if we clicked on an input field and try to focus it
-          try {
-            const elementHandle = await instance.page.evaluateHandle((x, y) => {
-              return document.elementFromPoint(x, y);
-            }, roundedX, roundedY);
-
-            const tagName = await instance.page.evaluate((el: any) => el?.tagName?.toLowerCase(), elementHandle);
-            const isInput = tagName === 'input' || tagName === 'textarea';
-
-            if (isInput) {
-              console.log(`Detected input field at (${roundedX}, ${roundedY}), attempting to focus`);
-              await instance.page.evaluate((el: any) => {
-                if (el && typeof el.focus === 'function') {
-                  el.focus();
-                  el.click();
-                }
-              }, elementHandle);
-            }
-          } catch (error) {
-            console.log('Error checking element type:', error);
-          }
-        } else {
-          console.log('Mouse button not pressed, skipping mouseReleased event');
-        }
+      const x = Math.round(event.x);
+      const y = Math.round(event.y);
+      if (event.eventType === 'mousePressed') {
+        this.probeFileInput(instance, x, y);
       }
 
-      await this.saveCookies(sessionId, instance.page);
+      const client = await this.getControlSession(instance, instance.page);
+      await client.send('Input.dispatchMouseEvent', {
+        type: event.eventType,
+        x,
+        y,
+        modifiers: event.modifiers,
+        button: event.button,
+        buttons: event.buttons,
+        clickCount: event.clickCount,
+        deltaX: event.deltaX,
+        deltaY: event.deltaY,
+      });
+
+      if (event.eventType !== 'mouseMoved') {
+        this.scheduleSessionStateSave(sessionId);
+      }
     } catch (error: any) {
       // Silently ignore errors from closed pages
       if (error.message && error.message.includes('Session closed')) {
@@ -645,15 +2455,10 @@ export class BrowserSessionManager {
   }
 
   /**
-   * Dispatch keyboard event via CDP
+   * Dispatch a viewer keyboard event via CDP, with its code and modifiers so shortcuts work
    */
-  async dispatchKeyEvent(sessionId: string, type: string, key: string, text?: string): Promise<void> {
-    const instance = activeBrowsers.get(sessionId);
-    if (!instance?.page) {
-      throw new Error("Session not running");
-    }
-
-    console.log(`Dispatching key event: ${type}, key: ${key}, text: ${text || 'none'}`);
+  async dispatchKeyEvent(sessionId: string, event: ViewerKeyEvent): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
 
     try {
       // Check if page is still alive
@@ -661,18 +2466,23 @@ export class BrowserSessionManager {
         console.log(`Page is closed, ignoring key event`);
         return;
       }
-
-      if (type === 'keyDown') {
-        if (text && text.length === 1) {
-          // For single characters, just use sendCharacter to avoid duplication
-          await instance.page.keyboard.sendCharacter(text);
-        } else {
-          // For special keys, use down
-          await instance.page.keyboard.down(key as any);
-        }
-      } else if (type === 'keyUp') {
-        await instance.page.keyboard.up(key as any);
-      }
+      this.markActivity(sessionId);
+
+      const client = await this.getControlSession(instance, instance.page);
+      await client.send('Input.dispatchKeyEvent', {
+        // Keys that type nothing go down raw, so the page gets no keypress for them
+        type: event.eventType === 'keyUp' ? 'keyUp' : event.text ? 'keyDown' : 'rawKeyDown',
+        modifiers: event.modifiers,
+        key: event.key,
+        code: event.code,
+        text: event.text,
+        unmodifiedText: event.text,
+        windowsVirtualKeyCode: event.keyCode,
+        nativeVirtualKeyCode: event.keyCode,
+        location: event.location,
+        isKeypad: event.location === 3,
+        autoRepeat: event.autoRepeat,
+      });
     } catch (error: any) {
       // Silently ignore errors from closed pages
       if (error.message && error.message.includes('Session closed')) {
@@ -685,31 +2495,42 @@ export class BrowserSessionManager {
   }
 
   /**
-   * Dispatch scroll event via CDP
+   * Dispatch touch event via CDP, for sessions emulating a touch device
    */
-  async dispatchScrollEvent(sessionId: string, deltaX: number, deltaY: number): Promise<void> {
-    const instance = activeBrowsers.get(sessionId);
-    if (!instance?.page) {
-      throw new Error("Session not running");
-    }
+  async dispatchTouchEvent(sessionId: string, event: ViewerTouchEvent): Promise<void> {
+    const instance = this.getInteractiveInstance(sessionId);
+    const { eventType: type, touchPoints } = event;
 
     try {
       // Check if page is still alive
       if (instance.page.isClosed()) {
-        console.log(`Page is closed, ignoring scroll event`);
+        console.log(`Page is closed, ignoring touch event`);
         return;
       }
+      this.markActivity(sessionId);
+      if (type === 'touchStart' && touchPoints.length > 0) {
+        this.probeFileInput(instance, Math.round(touchPoints[0].x), Math.round(touchPoints[0].y));
+      }
+
+      const client = await this.getControlSession(instance, instance.page);
+      await client.send('Input.dispatchTouchEvent', {
+        type,
+        // Ending touches report no remaining points
+        touchPoints: type === 'touchEnd' || type === 'touchCancel'
+          ? []
+          : touchPoints.map((point) => ({ x: Math.round(point.x), y: Math.round(point.y), id: point.id })),
+      });
 
-      await instance.page.evaluate((dx, dy) => {
-        window.scrollBy(dx, dy);
-      }, deltaX, deltaY);
+      if (type === 'touchEnd') {
+        this.scheduleSessionStateSave(sessionId);
+      }
     } catch (error: any) {
       // Silently ignore errors from closed pages
       if (error.message && error.message.includes('Session closed')) {
-        console.log(`Page session closed, ignoring scroll event`);
+        console.log(`Page session closed, ignoring touch event`);
         return;
       }
-      console.error(`Error dispatching scroll event: ${error}`);
+      console.error(`Error dispatching touch event: ${error}`);
       throw error;
     }
   }
@@ -717,26 +2538,106 @@ export class BrowserSessionManager {
 
 export const browserManager = new BrowserSessionManager();
 
+// Outcome of the most recent startup restore, keyed by session ID
+const restoreResults = new Map<string, SessionRestoreResult>();
+
+/**
+ * Record how a session queued during restore fared once the queue reached it
+ */
+function settleQueuedRestore(sessionId: string, error?: unknown): void {
+  const result = restoreResults.get(sessionId);
+  if (result?.status !== "queued") {
+    return;
+  }
+  if (error === undefined) {
+    result.status = "restored";
+  } else {
+    result.status = "failed";
+    result.reason = error instanceof Error ? error.message : String(error);
+  }
+  result.finishedAt = new Date();
+}
+
+/**
+ * Get restore outcomes and counts by state, optionally limited to one user's sessions
+ */
+export function getRestoreResults(userId?: string): SessionRestoreStatus {
+  const sessions = Array.from(restoreResults.values())
+    .filter(result => !userId || result.userId === userId);
+  const count = (status: SessionRestoreResult["status"]) =>
+    sessions.filter(result => result.status === status).length;
+  return {
+    restored: count("restored"),
+    queued: count("queued"),
+    failed: count("failed"),
+    pending: count("pending"),
+    sessions,
+  };
+}
+
 /**
  * Restore running sessions on server startup
+ *
+ * Relaunches every session left in "running" state, across all users, with at
+ * most RESTORE_CONCURRENCY browsers launching at once and a random delay of up
+ * to RESTORE_JITTER_MS before each launch.
  */
 export async function restoreRunningSessions(): Promise<void> {
   console.log("Restoring running browser sessions...");
   try {
-    // Get all sessions from storage
-    const allSessions = await storage.getBrowserSessionsByUserId("admin");
-    const runningSessions = allSessions.filter(s => s.status === "running");
+    const concurrency = Math.max(1, parseInt(process.env.RESTORE_CONCURRENCY || "3", 10) || 1);
+    const maxJitter = Math.max(0, parseInt(process.env.RESTORE_JITTER_MS || "2000", 10) || 0);
+
+    const allSessions = await storage.getAllBrowserSessions();
 
-    console.log(`Found ${runningSessions.length} sessions to restore`);
+    // No browser survives a restart, so runs still open were cut short
+    for (const session of allSessions.filter(s => s.currentRunStartedAt)) {
+      await recordRunEnd(session.id, "interrupted");
+    }
+
+    // Queued sessions were waiting to run when the server stopped
+    const runningSessions = allSessions.filter(s => s.status === "running" || s.status === "queued");
 
+    console.log(`Found ${runningSessions.length} sessions to restore (concurrency ${concurrency})`);
+
+    restoreResults.clear();
     for (const session of runningSessions) {
-      try {
-        await browserManager.startSession(session.id);
-        console.log(`Restored session ${session.id}`);
-      } catch (error) {
-        console.error(`Failed to restore session ${session.id}:`, error);
-      }
+      restoreResults.set(session.id, {
+        sessionId: session.id,
+        userId: session.userId,
+        status: "pending",
+      });
     }
+
+    const queue = [...runningSessions];
+    const worker = async () => {
+      let session: BrowserSession | undefined;
+      while ((session = queue.shift())) {
+        const result = restoreResults.get(session.id)!;
+        await new Promise(resolve => setTimeout(resolve, Math.random() * maxJitter));
+
+        result.startedAt = new Date();
+        try {
+          const position = await browserManager.requestStart(session.id);
+          result.status = position === null ? "restored" : "queued";
+          console.log(position === null
+            ? `Restored session ${session.id}`
+            : `Queued session ${session.id} for restore at position ${position}`);
+        } catch (error) {
+          result.status = "failed";
+          result.reason = error instanceof Error ? error.message : String(error);
+          console.error(`Failed to restore session ${session.id}:`, error);
+        }
+        result.finishedAt = new Date();
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, () => worker())
+    );
+
+    const { restored, queued, failed } = getRestoreResults();
+    console.log(`Session restore finished: ${restored} started, ${queued} queued, ${failed} failed`);
   } catch (error) {
     console.error("Failed to restore sessions:", error);
   }
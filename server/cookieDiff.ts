@@ -0,0 +1,131 @@
+import type { Cookie, InsertCookie, InsertCookieEvent } from "@shared/schema";
+
+export interface CookieDiff {
+  added: InsertCookie[];
+  updated: { before: Cookie; after: InsertCookie }[];
+  removed: Cookie[];
+}
+
+/**
+ * Identity of a cookie as the browser sees it
+ */
+export function cookieKey(cookie: Pick<InsertCookie, "name" | "domain" | "path">): string {
+  return `${cookie.name}|${cookie.domain ?? ""}|${cookie.path ?? ""}`;
+}
+
+// Browsers report fractional expiry seconds, so compare at second precision
+function expirySeconds(expires: Date | null | undefined): number | null {
+  return expires ? Math.floor(new Date(expires).getTime() / 1000) : null;
+}
+
+function cookieChanged(before: Cookie, after: InsertCookie): boolean {
+  return (
+    before.value !== after.value ||
+    expirySeconds(before.expires) !== expirySeconds(after.expires) ||
+    before.httpOnly !== after.httpOnly ||
+    before.secure !== after.secure ||
+    (before.sameSite ?? null) !== (after.sameSite ?? null)
+  );
+}
+
+/**
+ * Compare stored cookies with the live cookie jar
+ */
+export function diffCookies(stored: Cookie[], live: InsertCookie[]): CookieDiff {
+  const diff: CookieDiff = { added: [], updated: [], removed: [] };
+
+  // Duplicate rows for the same cookie are dropped in favour of the newest
+  const storedByKey = new Map<string, Cookie>();
+  for (const cookie of stored) {
+    const key = cookieKey(cookie);
+    const existing = storedByKey.get(key);
+    if (existing && existing.updatedAt > cookie.updatedAt) {
+      diff.removed.push(cookie);
+      continue;
+    }
+    if (existing) {
+      diff.removed.push(existing);
+    }
+    storedByKey.set(key, cookie);
+  }
+
+  for (const cookie of live) {
+    const key = cookieKey(cookie);
+    const before = storedByKey.get(key);
+    if (!before) {
+      diff.added.push(cookie);
+    } else {
+      if (cookieChanged(before, cookie)) {
+        diff.updated.push({ before, after: cookie });
+      }
+      storedByKey.delete(key);
+    }
+  }
+
+  diff.removed.push(...Array.from(storedByKey.values()));
+  return diff;
+}
+
+/**
+ * Describe a cookie diff as history events, stamped with the page URL
+ */
+export function toCookieEvents(diff: CookieDiff, sessionId: string, url: string | null): InsertCookieEvent[] {
+  const events: InsertCookieEvent[] = [];
+  const base = (cookie: InsertCookie | Cookie) => ({
+    sessionId,
+    name: cookie.name,
+    domain: cookie.domain ?? null,
+    path: cookie.path ?? null,
+    url,
+  });
+  const none = { oldValue: null, newValue: null, oldExpires: null, newExpires: null };
+
+  for (const cookie of diff.added) {
+    events.push({
+      ...base(cookie),
+      ...none,
+      type: "added",
+      newValue: cookie.value,
+      newExpires: cookie.expires ?? null,
+    });
+  }
+
+  for (const { before, after } of diff.updated) {
+    const valueChanged = before.value !== after.value;
+    const expiryChanged = expirySeconds(before.expires) !== expirySeconds(after.expires);
+
+    if (valueChanged) {
+      events.push({
+        ...base(after),
+        ...none,
+        type: "value_changed",
+        oldValue: before.value,
+        newValue: after.value,
+      });
+    }
+    if (expiryChanged) {
+      events.push({
+        ...base(after),
+        ...none,
+        type: "expiry_changed",
+        oldExpires: before.expires ?? null,
+        newExpires: after.expires ?? null,
+      });
+    }
+    if (!valueChanged && !expiryChanged) {
+      events.push({ ...base(after), ...none, type: "attributes_changed" });
+    }
+  }
+
+  for (const cookie of diff.removed) {
+    events.push({
+      ...base(cookie),
+      ...none,
+      type: "deleted",
+      oldValue: cookie.value,
+      oldExpires: cookie.expires ?? null,
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,154 @@
+import { storage } from "./storage";
+import { browserManager } from "./browserManager";
+import type { BrowserSession, Cookie, CookieExpiryPolicy, ExpiringCookie } from "@shared/schema";
+
+// When the last keep-alive ran for each session, so renewals aren't repeated every check
+const lastKeepAlive = new Map<string, number>();
+
+let monitorTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Turn a cookie name pattern ("*" matches anything) into a regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Find watched cookies that expire within the policy threshold
+ */
+export function findExpiringCookies(
+  cookies: Cookie[],
+  policy: CookieExpiryPolicy,
+  now = Date.now(),
+): ExpiringCookie[] {
+  const patterns = policy.patterns.map(patternToRegExp);
+  const deadline = now + policy.thresholdMinutes * 60 * 1000;
+
+  return cookies
+    .filter(cookie => cookie.expires && patterns.some(pattern => pattern.test(cookie.name)))
+    .filter(cookie => new Date(cookie.expires!).getTime() <= deadline)
+    .map(cookie => ({ name: cookie.name, domain: cookie.domain, expires: new Date(cookie.expires!) }))
+    .sort((a, b) => a.expires.getTime() - b.expires.getTime());
+}
+
+function describeCookies(expiring: ExpiringCookie[]): string {
+  return expiring.map(cookie => cookie.name).join(", ");
+}
+
+function sameCookies(a: ExpiringCookie[] | null, b: ExpiringCookie[]): boolean {
+  if (!a || a.length !== b.length) return false;
+  const key = (cookie: ExpiringCookie) => `${cookie.name}|${cookie.domain ?? ""}`;
+  const names = new Set(a.map(key));
+  return b.every(cookie => names.has(key(cookie)));
+}
+
+/**
+ * Try to renew cookies by reloading the page or visiting the keep-alive URL
+ */
+async function runKeepAlive(session: BrowserSession, policy: CookieExpiryPolicy): Promise<void> {
+  if (policy.keepAlive === "none") return;
+  if (!browserManager.isSessionActive(session.id) || browserManager.isSessionPaused(session.id)) return;
+
+  // Allow one attempt per half threshold, so the renewed cookies have time to show up
+  const minGap = (policy.thresholdMinutes * 60 * 1000) / 2;
+  const last = lastKeepAlive.get(session.id);
+  if (last && Date.now() - last < minGap) return;
+  lastKeepAlive.set(session.id, Date.now());
+
+  try {
+    if (policy.keepAlive === "navigate" && policy.keepAliveUrl) {
+      // Visit the keep-alive URL, then return to where the user was
+      const currentUrl = await browserManager.getCurrentUrl(session.id);
+      await browserManager.navigateSession(session.id, policy.keepAliveUrl);
+      if (currentUrl && currentUrl !== policy.keepAliveUrl) {
+        await browserManager.navigateSession(session.id, currentUrl);
+      }
+    } else {
+      await browserManager.refresh(session.id);
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Keep-alive failed for session ${session.id}:`, error);
+    await storage.createSessionWarning({
+      sessionId: session.id,
+      type: "keep_alive_failed",
+      message: `Keep-alive ${policy.keepAlive} failed: ${reason}`,
+      details: { keepAlive: policy.keepAlive, url: policy.keepAliveUrl ?? null },
+    });
+  }
+}
+
+/**
+ * Check one session's watched cookies, updating its warning state
+ */
+export async function checkSessionCookieExpiry(session: BrowserSession): Promise<void> {
+  const policy = session.cookieExpiryPolicy;
+  if (!policy || policy.patterns.length === 0) {
+    if (session.expiringCookies) {
+      await storage.updateBrowserSession(session.id, { expiringCookies: null });
+    }
+    return;
+  }
+
+  const cookies = await storage.getSessionCookies(session.id);
+  const expiring = findExpiringCookies(cookies, policy);
+
+  if (expiring.length === 0) {
+    if (session.expiringCookies) {
+      await storage.updateBrowserSession(session.id, { expiringCookies: null });
+    }
+    lastKeepAlive.delete(session.id);
+    return;
+  }
+
+  // Only record a warning when the set of expiring cookies changes
+  if (!sameCookies(session.expiringCookies, expiring)) {
+    await storage.updateBrowserSession(session.id, { expiringCookies: expiring });
+    await storage.createSessionWarning({
+      sessionId: session.id,
+      type: "cookie_expiring",
+      message: `Cookies expiring within ${policy.thresholdMinutes} minutes: ${describeCookies(expiring)}`,
+      details: { cookies: expiring },
+    });
+  }
+
+  await runKeepAlive(session, policy);
+}
+
+/**
+ * Check every session's watched cookies once
+ */
+export async function checkCookieExpiry(): Promise<void> {
+  const sessions = await storage.getAllBrowserSessions();
+  for (const session of sessions) {
+    try {
+      await checkSessionCookieExpiry(session);
+    } catch (error) {
+      console.error(`Cookie expiry check failed for session ${session.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Check watched cookies every COOKIE_EXPIRY_CHECK_INTERVAL_MS (default one minute)
+ */
+export function startCookieExpiryMonitor(): void {
+  if (monitorTimer) return;
+  const interval = Math.max(5000, parseInt(process.env.COOKIE_EXPIRY_CHECK_INTERVAL_MS || "60000", 10) || 60000);
+
+  let running = false;
+  monitorTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow check
+    if (running) return;
+    running = true;
+    try {
+      await checkCookieExpiry();
+    } catch (error) {
+      console.error("Cookie expiry check failed:", error);
+    } finally {
+      running = false;
+    }
+  }, interval);
+}
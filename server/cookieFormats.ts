@@ -0,0 +1,217 @@
+import { insertCookieSchema } from "@shared/schema";
+import type { Cookie, InsertCookie } from "@shared/schema";
+
+export type CookieExportFormat = "netscape" | "json" | "har";
+
+export const cookieExportFormats: Record<CookieExportFormat, { contentType: string; extension: string }> = {
+  netscape: { contentType: "text/plain", extension: "txt" },
+  json: { contentType: "application/json", extension: "json" },
+  har: { contentType: "application/json", extension: "har" },
+};
+
+// sameSite values as spelled by EditThisCookie and HAR writers
+const sameSiteAliases: Record<string, Cookie["sameSite"]> = {
+  strict: "Strict",
+  lax: "Lax",
+  no_restriction: "None",
+  none: "None",
+  unspecified: null,
+};
+
+/**
+ * Render cookies as a Netscape cookies.txt file (as read by curl and wget)
+ */
+export function toNetscape(cookies: Cookie[]): string {
+  const lines = [
+    "# Netscape HTTP Cookie File",
+    "# This file was generated by the browser automation dashboard",
+    "",
+  ];
+
+  for (const cookie of cookies) {
+    const domain = cookie.domain || "";
+    lines.push([
+      (cookie.httpOnly ? "#HttpOnly_" : "") + domain,
+      domain.startsWith(".") ? "TRUE" : "FALSE",
+      cookie.path || "/",
+      cookie.secure ? "TRUE" : "FALSE",
+      cookie.expires ? Math.floor(new Date(cookie.expires).getTime() / 1000) : 0,
+      cookie.name,
+      cookie.value,
+    ].join("\t"));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render cookies in the JSON format used by the EditThisCookie extension
+ */
+export function toEditThisCookie(cookies: Cookie[]) {
+  return cookies.map((cookie, index) => ({
+    domain: cookie.domain || "",
+    expirationDate: cookie.expires ? new Date(cookie.expires).getTime() / 1000 : undefined,
+    hostOnly: !cookie.domain?.startsWith("."),
+    httpOnly: cookie.httpOnly,
+    name: cookie.name,
+    path: cookie.path || "/",
+    sameSite: cookie.sameSite === "None" ? "no_restriction" : cookie.sameSite?.toLowerCase() ?? "unspecified",
+    secure: cookie.secure,
+    session: !cookie.expires,
+    storeId: "0",
+    value: cookie.value,
+    id: index + 1,
+  }));
+}
+
+/**
+ * Render cookies as a HAR cookies block
+ */
+export function toHarCookies(cookies: Cookie[]) {
+  return {
+    cookies: cookies.map((cookie) => ({
+      name: cookie.name,
+      value: cookie.value,
+      path: cookie.path || undefined,
+      domain: cookie.domain || undefined,
+      expires: cookie.expires ? new Date(cookie.expires).toISOString() : undefined,
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure,
+      sameSite: cookie.sameSite || undefined,
+    })),
+  };
+}
+
+/**
+ * Hide most of a cookie value, keeping a short prefix to tell values apart
+ */
+export function maskCookieValue(value: string | null): string | null {
+  if (value === null) return null;
+  if (value.length <= 8) return "•".repeat(value.length);
+  return `${value.slice(0, 4)}${"•".repeat(8)}`;
+}
+
+/**
+ * Render cookies in the requested export format
+ */
+export function formatCookies(cookies: Cookie[], format: CookieExportFormat): string {
+  switch (format) {
+    case "netscape":
+      return toNetscape(cookies);
+    case "json":
+      return JSON.stringify(toEditThisCookie(cookies), null, 2);
+    case "har":
+      return JSON.stringify(toHarCookies(cookies), null, 2);
+  }
+}
+
+function parseNetscape(text: string): Record<string, unknown>[] {
+  const cookies: Record<string, unknown>[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine;
+    let httpOnly = false;
+
+    if (line.startsWith("#HttpOnly_")) {
+      httpOnly = true;
+      line = line.slice("#HttpOnly_".length);
+    } else if (!line.trim() || line.startsWith("#")) {
+      continue;
+    }
+
+    const fields = line.split("\t");
+    if (fields.length < 7) {
+      throw new Error(`Invalid cookies.txt line: ${rawLine}`);
+    }
+
+    const [domain, , path, secure, expires, name, ...value] = fields;
+    const expiresAt = parseInt(expires, 10);
+    cookies.push({
+      name,
+      value: value.join("\t"),
+      domain,
+      path,
+      secure: secure.toUpperCase() === "TRUE",
+      httpOnly,
+      expires: expiresAt > 0 ? new Date(expiresAt * 1000) : null,
+    });
+  }
+
+  return cookies;
+}
+
+function parseEditThisCookie(entries: any[]): Record<string, unknown>[] {
+  return entries.map((entry) => ({
+    name: entry.name,
+    value: entry.value,
+    domain: entry.domain || null,
+    path: entry.path || null,
+    secure: !!entry.secure,
+    httpOnly: !!entry.httpOnly,
+    sameSite: sameSiteAliases[String(entry.sameSite ?? "unspecified").toLowerCase()] ?? null,
+    expires: entry.expirationDate ? new Date(entry.expirationDate * 1000) : null,
+  }));
+}
+
+function parseHarCookies(entries: any[]): Record<string, unknown>[] {
+  return entries.map((entry) => ({
+    name: entry.name,
+    value: entry.value,
+    domain: entry.domain || null,
+    path: entry.path || null,
+    secure: !!entry.secure,
+    httpOnly: !!entry.httpOnly,
+    sameSite: sameSiteAliases[String(entry.sameSite ?? "unspecified").toLowerCase()] ?? null,
+    expires: entry.expires ? new Date(entry.expires) : null,
+  }));
+}
+
+/**
+ * Parse cookies.txt, EditThisCookie JSON or HAR (full log or cookies block),
+ * detecting the format from the content
+ */
+export function parseCookies(text: string, sessionId: string): InsertCookie[] {
+  let raw: Record<string, unknown>[];
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const json = JSON.parse(trimmed);
+    if (Array.isArray(json)) {
+      raw = parseEditThisCookie(json);
+    } else if (Array.isArray(json.cookies)) {
+      raw = parseHarCookies(json.cookies);
+    } else if (Array.isArray(json.log?.entries)) {
+      // Collect cookies from every request and response in a full HAR log
+      raw = parseHarCookies(
+        json.log.entries.flatMap((entry: any) => [
+          ...(entry.request?.cookies ?? []),
+          ...(entry.response?.cookies ?? []),
+        ])
+      );
+    } else {
+      throw new Error("Unrecognized cookie JSON: expected an array, a cookies block or a HAR log");
+    }
+  } else {
+    raw = parseNetscape(text);
+  }
+
+  // HAR logs repeat the same cookie on many entries; keep the last occurrence
+  const unique = new Map<string, Record<string, unknown>>();
+  for (const cookie of raw) {
+    unique.set(`${cookie.name}|${cookie.domain ?? ""}|${cookie.path ?? ""}`, cookie);
+  }
+
+  return Array.from(unique.values()).map((cookie) => {
+    const result = insertCookieSchema.safeParse({ ...cookie, sessionId });
+    if (!result.success) {
+      throw new Error(`Invalid cookie "${String(cookie.name)}": ${result.error.errors[0]?.message}`);
+    }
+    return {
+      ...result.data,
+      domain: result.data.domain ?? null,
+      path: result.data.path ?? null,
+      expires: result.data.expires ?? null,
+      sameSite: result.data.sameSite ?? null,
+    };
+  });
+}
@@ -1,15 +1,25 @@
 import { Pool, neonConfig } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?"
-  );
-}
+// Any Drizzle Postgres database built with our schema (Neon, node-postgres, pg-mem...)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Create a Drizzle client backed by a Neon connection pool
+ */
+export function createDb(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?"
+    );
+  }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
@@ -0,0 +1,19 @@
+import { KnownDevices } from "puppeteer";
+import type { DevicePreset } from "@shared/schema";
+
+/**
+ * Device presets built from Puppeteer's KnownDevices, sorted by name
+ */
+export function listDevicePresets(): DevicePreset[] {
+  return Object.entries(KnownDevices)
+    .map(([name, device]) => ({
+      name,
+      userAgent: device.userAgent,
+      viewportWidth: device.viewport.width,
+      viewportHeight: device.viewport.height,
+      deviceScaleFactor: device.viewport.deviceScaleFactor ?? 1,
+      isMobile: device.viewport.isMobile ?? false,
+      hasTouch: device.viewport.hasTouch ?? false,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import { browserManager } from "./browserManager";
+import type { BrowserSession } from "@shared/schema";
+
+// Policies are set in minutes, so checking twice a minute is precise enough
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+let monitorTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Pause or stop one session if it has been idle longer than its policy allows
+ */
+export async function checkSessionIdle(session: BrowserSession): Promise<void> {
+  const policy = session.idleTimeout;
+  if (!policy) return;
+
+  const idleMs = browserManager.getIdleMs(session.id);
+  if (idleMs === undefined || idleMs < policy.minutes * 60 * 1000) return;
+
+  // A paused session is already as idle as pausing can make it
+  const paused = browserManager.isSessionPaused(session.id);
+  if (policy.action === "pause" && paused) return;
+
+  if (policy.action === "pause") {
+    await browserManager.pauseSession(session.id);
+  } else {
+    await browserManager.stopSession(session.id, { reason: "idle" });
+  }
+
+  console.log(`Session ${session.id} ${policy.action === "pause" ? "paused" : "stopped"} after ${policy.minutes} idle minutes`);
+  await storage.createSessionWarning({
+    sessionId: session.id,
+    type: "idle_timeout",
+    message: `${policy.action === "pause" ? "Paused" : "Stopped"} after ${policy.minutes} minutes without activity`,
+    details: { action: policy.action, minutes: policy.minutes },
+  });
+}
+
+/**
+ * Check every running session against its idle timeout once
+ */
+export async function checkIdleSessions(): Promise<void> {
+  for (const sessionId of browserManager.getActiveSessionIds()) {
+    try {
+      const session = await storage.getBrowserSession(sessionId);
+      if (session) {
+        await checkSessionIdle(session);
+      }
+    } catch (error) {
+      console.error(`Idle check failed for session ${sessionId}:`, error);
+    }
+  }
+}
+
+/**
+ * Apply idle timeouts every CHECK_INTERVAL_MS
+ */
+export function startIdleMonitor(): void {
+  if (monitorTimer) return;
+
+  let running = false;
+  monitorTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow check
+    if (running) return;
+    running = true;
+    try {
+      await checkIdleSessions();
+    } catch (error) {
+      console.error("Idle check failed:", error);
+    } finally {
+      running = false;
+    }
+  }, CHECK_INTERVAL_MS);
+}
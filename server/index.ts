@@ -2,9 +2,13 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { WebSocketServer, WebSocket } from "ws";
-import { browserManager } from "./browserManager";
+import { browserManager, restoreRunningSessions } from "./browserManager";
 import { getSession } from "./auth";
 import { storage } from "./storage";
+import { startCookieExpiryMonitor } from "./cookieExpiryMonitor";
+import { startMetricsCollector } from "./sessionMetrics";
+import { startIdleMonitor } from "./idleMonitor";
+import { viewerKeyEventSchema, viewerMouseEventSchema, viewerTouchEventSchema } from "@shared/schema";
 import passport from "passport";
 import type { IncomingMessage } from "http";
 
@@ -170,7 +174,12 @@ app.use((req, res, next) => {
       if (!browserManager.isSessionActive(browserSessionId)) {
         log(`WebSocket warning: Browser session ${browserSessionId} is not active, attempting to start...`);
         try {
-          await browserManager.startSession(browserSessionId);
+          const position = await browserManager.requestStart(browserSessionId);
+          if (position !== null) {
+            log(`Browser session ${browserSessionId} is queued at position ${position}`);
+            ws.close(1013, "Session is queued");
+            return;
+          }
           log(`Browser session ${browserSessionId} started successfully`);
         } catch (error) {
           log(`Failed to start browser session ${browserSessionId}: ${error}`);
@@ -189,33 +198,34 @@ app.use((req, res, next) => {
           log(`WS message: type=${data.type}, eventType=${data.eventType}`);
 
           if (data.type === 'mouseEvent') {
-            log(`Mouse: ${data.eventType} at (${Math.round(data.x)}, ${Math.round(data.y)})`);
-            await browserManager.dispatchMouseEvent(
-              browserSessionId!,
-              data.eventType,
-              data.x,
-              data.y,
-              data.button
-            );
+            const event = viewerMouseEventSchema.parse(data);
+            log(`Mouse: ${event.eventType} ${event.button} x${event.clickCount} at (${Math.round(event.x)}, ${Math.round(event.y)})`);
+            await browserManager.dispatchMouseEvent(browserSessionId!, event);
           } else if (data.type === 'keyEvent') {
-            log(`Key: ${data.eventType}, key=${data.key}`);
-            await browserManager.dispatchKeyEvent(
-              browserSessionId!,
-              data.eventType,
-              data.key,
-              data.text
-            );
-          } else if (data.type === 'scroll') {
-            log(`Scroll: dx=${data.deltaX}, dy=${data.deltaY}`);
-            await browserManager.dispatchScrollEvent(
+            const event = viewerKeyEventSchema.parse(data);
+            log(`Key: ${event.eventType}, key=${event.key}, modifiers=${event.modifiers}`);
+            await browserManager.dispatchKeyEvent(browserSessionId!, event);
+          } else if (data.type === 'touchEvent') {
+            const event = viewerTouchEventSchema.parse(data);
+            await browserManager.dispatchTouchEvent(browserSessionId!, event);
+          } else if (data.type === 'dialogResponse') {
+            await browserManager.answerDialog(
               browserSessionId!,
-              data.deltaX,
-              data.deltaY
+              data.dialogId,
+              !!data.accept,
+              data.promptText
             );
+          } else if (data.type === 'paste') {
+            await browserManager.pasteText(browserSessionId!, String(data.text ?? ''));
+          } else if (data.type === 'copy') {
+            const text = await browserManager.copySelection(browserSessionId!);
+            if (ws.readyState === WebSocket.OPEN) {
+              ws.send(JSON.stringify({ type: 'clipboard', text }));
+            }
           }
         } catch (error: any) {
-          // Don't log session closed errors repeatedly
-          if (!error.message || !error.message.includes('Session closed')) {
+          // Don't log session closed or paused errors repeatedly
+          if (!error.message || !/Session (closed|is paused)/.test(error.message)) {
             log(`WebSocket message error: ${error}`);
           }
         }
@@ -290,5 +300,17 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Relaunch sessions that were running before the last shutdown
+    restoreRunningSessions();
+
+    // Watch for important cookies that are about to expire
+    startCookieExpiryMonitor();
+
+    // Sample CPU, memory and frame rate of running sessions
+    startMetricsCollector();
+
+    // Pause or stop sessions left idle past their timeout
+    startIdleMonitor();
   });
 })();
@@ -0,0 +1,139 @@
+import { executablePath as bundledExecutablePath } from "puppeteer";
+import { execSync } from "child_process";
+import fs from "fs";
+import { storage } from "./storage";
+import { proxyServerUrl } from "./proxyCheck";
+import { launchProfileSchema } from "@shared/schema";
+import type { BrowserSession, LaunchProfile } from "@shared/schema";
+
+// Browser binaries looked up on PATH, in order of preference
+const PATH_CANDIDATES = ["chromium", "chromium-browser", "google-chrome-stable", "google-chrome"];
+
+// Flags every session is launched with
+const BASE_ARGS = [
+  "--no-sandbox",
+  "--disable-setuid-sandbox",
+  "--disable-dev-shm-usage",
+  "--disable-gpu",
+  "--disable-software-rasterizer",
+  "--disable-extensions",
+];
+
+let defaultProfile: LaunchProfile | undefined;
+
+/**
+ * Get the global default launch profile from BROWSER_LAUNCH_PROFILE (JSON)
+ */
+export function getDefaultLaunchProfile(): LaunchProfile {
+  if (!defaultProfile) {
+    defaultProfile = {};
+    const raw = process.env.BROWSER_LAUNCH_PROFILE;
+    if (raw) {
+      try {
+        const result = launchProfileSchema.safeParse(JSON.parse(raw));
+        if (result.success) {
+          defaultProfile = result.data;
+        } else {
+          console.error("Ignoring invalid BROWSER_LAUNCH_PROFILE:", result.error.errors);
+        }
+      } catch (error) {
+        console.error("Ignoring unparseable BROWSER_LAUNCH_PROFILE:", error);
+      }
+    }
+  }
+  return defaultProfile;
+}
+
+/**
+ * Layer a session's launch profile over the global default
+ *
+ * Fields set on the session win; extra flags from both are kept.
+ */
+export function resolveLaunchProfile(profile?: LaunchProfile | null): LaunchProfile {
+  const defaults = getDefaultLaunchProfile();
+  const resolved: LaunchProfile = { ...defaults };
+
+  for (const [key, value] of Object.entries(profile ?? {})) {
+    if (value !== undefined) {
+      (resolved as Record<string, unknown>)[key] = value;
+    }
+  }
+  resolved.extraArgs = [...(defaults.extraArgs ?? []), ...(profile?.extraArgs ?? [])];
+
+  return resolved;
+}
+
+/**
+ * Resolve the launch profile a session runs with, including its pool proxy
+ */
+export async function getSessionLaunchProfile(session: BrowserSession): Promise<LaunchProfile> {
+  const profile = resolveLaunchProfile(session.launchProfile);
+
+  if (session.proxyId) {
+    const proxy = await storage.getProxyServer(session.proxyId);
+    if (proxy) {
+      profile.proxy = {
+        server: proxyServerUrl(proxy),
+        username: proxy.username ?? undefined,
+        password: proxy.password ?? undefined,
+      };
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Find the browser binary: the profile's path, then CHROMIUM_PATH or
+ * PUPPETEER_EXECUTABLE_PATH, then Puppeteer's bundled Chrome, then PATH
+ */
+export function findChromiumExecutable(preferred?: string): string {
+  if (preferred) {
+    if (!fs.existsSync(preferred)) {
+      throw new Error(`Chromium executable not found at ${preferred}`);
+    }
+    return preferred;
+  }
+
+  const fromEnv = process.env.CHROMIUM_PATH || process.env.PUPPETEER_EXECUTABLE_PATH;
+  if (fromEnv) {
+    if (!fs.existsSync(fromEnv)) {
+      throw new Error(`Chromium executable not found at ${fromEnv}`);
+    }
+    return fromEnv;
+  }
+
+  try {
+    const bundled = bundledExecutablePath();
+    if (bundled && fs.existsSync(bundled)) {
+      return bundled;
+    }
+  } catch {
+    // No browser has been downloaded into Puppeteer's cache
+  }
+
+  for (const candidate of PATH_CANDIDATES) {
+    const found = execSync(`which ${candidate} 2>/dev/null || echo ""`).toString().trim();
+    if (found) {
+      return found;
+    }
+  }
+
+  throw new Error("Chromium is not installed. Set CHROMIUM_PATH or install Chromium on the PATH.");
+}
+
+/**
+ * Build Chromium command-line flags for a launch profile
+ */
+export function buildLaunchArgs(profile: LaunchProfile): string[] {
+  const args = [...BASE_ARGS];
+
+  if (profile.proxy) {
+    args.push(`--proxy-server=${profile.proxy.server}`);
+  }
+  if (profile.locale) {
+    args.push(`--lang=${profile.locale}`);
+  }
+
+  return [...args, ...(profile.extraArgs ?? [])];
+}
@@ -0,0 +1,225 @@
+import http from "http";
+import net from "net";
+import tls from "tls";
+import { randomUUID } from "crypto";
+import type { AddressInfo } from "net";
+import type { ProxyCheckResult, ProxyServer } from "@shared/schema";
+
+// Address the proxy uses to reach a local test server; unset, checks fetch CHECK_URL instead
+const CHECK_HOST = process.env.PROXY_CHECK_HOST;
+
+// Public plain-HTTP page fetched through the proxy when there is no reachable test server
+const CHECK_URL = new URL(process.env.PROXY_CHECK_URL || "http://example.com/");
+
+/**
+ * Proxy URL in the form Chromium's --proxy-server flag expects
+ */
+export function proxyServerUrl(proxy: Pick<ProxyServer, "protocol" | "host" | "port">): string {
+  return `${proxy.protocol}://${proxy.host}:${proxy.port}`;
+}
+
+/**
+ * Read from a socket until `complete` reports the buffer holds a full message
+ */
+function readUntil(socket: net.Socket, complete: (data: Buffer) => boolean): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let data = Buffer.alloc(0);
+    const onData = (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk]);
+      if (complete(data)) {
+        cleanup();
+        resolve(data);
+      }
+    };
+    const onEnd = () => {
+      cleanup();
+      reject(new Error("Proxy closed the connection"));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const cleanup = () => {
+      socket.off("data", onData);
+      socket.off("end", onEnd);
+      socket.off("error", onError);
+    };
+
+    socket.on("data", onData);
+    socket.on("end", onEnd);
+    socket.on("error", onError);
+  });
+}
+
+function connectToProxy(proxy: ProxyServer): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = proxy.protocol === "https"
+      ? tls.connect({ host: proxy.host, port: proxy.port, servername: proxy.host }, () => resolve(socket))
+      : net.connect({ host: proxy.host, port: proxy.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+/**
+ * Open a tunnel to host:port with an HTTP CONNECT request
+ */
+async function httpConnect(socket: net.Socket, proxy: ProxyServer, host: string, port: number): Promise<void> {
+  const headers = [`CONNECT ${host}:${port} HTTP/1.1`, `Host: ${host}:${port}`];
+  if (proxy.username) {
+    const credentials = Buffer.from(`${proxy.username}:${proxy.password ?? ""}`).toString("base64");
+    headers.push(`Proxy-Authorization: Basic ${credentials}`);
+  }
+  socket.write(headers.join("\r\n") + "\r\n\r\n");
+
+  const response = await readUntil(socket, data => data.includes("\r\n\r\n"));
+  const statusLine = response.toString("latin1").split("\r\n")[0];
+  const status = parseInt(statusLine.split(" ")[1], 10);
+  if (status === 407) {
+    throw new Error("Proxy rejected the credentials (407)");
+  }
+  if (status !== 200) {
+    throw new Error(`Proxy refused the tunnel: ${statusLine}`);
+  }
+}
+
+/**
+ * Open a tunnel to host:port with a SOCKS5 CONNECT (no authentication)
+ */
+async function socks5Connect(socket: net.Socket, host: string, port: number): Promise<void> {
+  socket.write(Buffer.from([0x05, 0x01, 0x00]));
+  const greeting = await readUntil(socket, data => data.length >= 2);
+  if (greeting[0] !== 0x05 || greeting[1] !== 0x00) {
+    throw new Error("SOCKS5 proxy requires authentication");
+  }
+
+  const hostBytes = Buffer.from(host);
+  const request = Buffer.concat([
+    Buffer.from([0x05, 0x01, 0x00, 0x03, hostBytes.length]),
+    hostBytes,
+    Buffer.from([port >> 8, port & 0xff]),
+  ]);
+  socket.write(request);
+
+  // Reply is at least 10 bytes (IPv4 bound address); the rest is never needed
+  const reply = await readUntil(socket, data => data.length >= 10);
+  if (reply[1] !== 0x00) {
+    throw new Error(`SOCKS5 proxy refused the connection (code ${reply[1]})`);
+  }
+}
+
+/**
+ * Where a check sends its request through the proxy, and how it recognizes the reply
+ */
+interface CheckTarget {
+  host: string;
+  port: number;
+  path: string;
+  // Resolves once the reply proves the tunnel reached the target
+  awaitReply: (socket: net.Socket) => Promise<void>;
+}
+
+/**
+ * Serve a one-off token locally, so a passing check can't be a cached or forged reply
+ */
+async function startTokenServer(host: string): Promise<{ server: http.Server; target: CheckTarget }> {
+  const token = randomUUID();
+  const server = http.createServer((_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end(token);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, host === "127.0.0.1" ? "127.0.0.1" : "0.0.0.0", resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    server,
+    target: {
+      host,
+      port,
+      path: "/",
+      awaitReply: async (socket) => {
+        await readUntil(socket, data => data.includes(token));
+      },
+    },
+  };
+}
+
+/**
+ * Fetch the public check page; any HTTP response shows the proxy relayed the request
+ */
+function publicTarget(): CheckTarget {
+  return {
+    host: CHECK_URL.hostname,
+    port: Number(CHECK_URL.port) || 80,
+    path: CHECK_URL.pathname + CHECK_URL.search,
+    awaitReply: async (socket) => {
+      const response = await readUntil(socket, data => data.includes("\r\n\r\n"));
+      const statusLine = response.toString("latin1").split("\r\n")[0];
+      if (!/^HTTP\/1\.[01] \d{3}/.test(statusLine)) {
+        throw new Error(`Unexpected response through proxy: ${statusLine.slice(0, 80)}`);
+      }
+    },
+  };
+}
+
+/**
+ * Check a proxy by fetching a page through it: a local test server's one-off token when
+ * PROXY_CHECK_HOST says how the proxy reaches this machine, otherwise PROXY_CHECK_URL
+ */
+export async function checkProxy(proxy: ProxyServer, timeoutMs = 10000): Promise<ProxyCheckResult> {
+  const started = Date.now();
+  let server: http.Server | undefined;
+  let socket: net.Socket | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  // Set once the check is over, so a connection that lands after a timeout is closed at once
+  let settled = false;
+
+  try {
+    let target: CheckTarget;
+    if (CHECK_HOST) {
+      ({ server, target } = await startTokenServer(CHECK_HOST));
+    } else {
+      target = publicTarget();
+    }
+
+    const check = async () => {
+      const connected = await connectToProxy(proxy);
+      if (settled) {
+        connected.destroy();
+        return;
+      }
+      socket = connected;
+      if (proxy.protocol === "socks5") {
+        await socks5Connect(socket, target.host, target.port);
+      } else {
+        await httpConnect(socket, proxy, target.host, target.port);
+      }
+
+      socket.write(`GET ${target.path} HTTP/1.1\r\nHost: ${target.host}:${target.port}\r\nConnection: close\r\n\r\n`);
+      await target.awaitReply(socket);
+    };
+
+    await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+
+    return { ok: true, latencyMs: Date.now() - started, checkedAt: new Date() };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+      checkedAt: new Date(),
+    };
+  } finally {
+    settled = true;
+    clearTimeout(timer);
+    socket?.destroy();
+    server?.close();
+  }
+}
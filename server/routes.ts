@@ -2,9 +2,39 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./auth";
-import { browserManager } from "./browserManager";
-import { insertBrowserSessionSchema } from "@shared/schema";
-import type { InsertBrowserSessionInput } from "@shared/schema";
+import { browserManager, getRestoreResults } from "./browserManager";
+import {
+  insertBrowserSessionSchema,
+  cookieRequestSchema,
+  cookieExpiryPolicySchema,
+  insertProxyServerSchema,
+  liveSessionSettingsSchema,
+  restartPolicySchema,
+  idleTimeoutPolicySchema,
+  dialogPolicySchema,
+  dialogAnswerSchema,
+} from "@shared/schema";
+import type {
+  InsertBrowserSessionInput,
+  CookieExpiryPolicy,
+  RestartPolicy,
+  IdleTimeoutPolicy,
+  DialogPolicy,
+  ProxyServer,
+  PublicProxyServer,
+  BrowserSession,
+  BrowserSessionWithQueue,
+} from "@shared/schema";
+import {
+  cookieExportFormats,
+  formatCookies,
+  maskCookieValue,
+  parseCookies,
+  type CookieExportFormat,
+} from "./cookieFormats";
+import { checkProxy } from "./proxyCheck";
+import { listDevicePresets } from "./devicePresets";
+import { getSessionMetrics } from "./sessionMetrics";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -17,32 +47,1035 @@ const upload = multer({
   },
 });
 
+// Browser profile tarballs can be much larger than regular uploads
+const profileUpload = multer({
+  dest: path.join(process.cwd(), 'uploads'),
+  limits: {
+    fileSize: 500 * 1024 * 1024, // 500MB limit
+  },
+});
+
 // Ensure uploads directory exists
 const uploadsDir = path.join(process.cwd(), 'uploads');
 if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Auth middleware
-  await setupAuth(app);
+// Most files one upload can put into a page
+const MAX_UPLOAD_FILES = 10;
+
+// How long staged files are kept for the page to read after an upload
+const STAGED_UPLOAD_TTL_MS = 5000;
+
+/**
+ * Move uploaded files into a fresh directory under their original names, so the page sees real file names
+ */
+async function stageUploads(files: Express.Multer.File[]): Promise<{ dir: string; paths: string[] }> {
+  const dir = await fs.promises.mkdtemp(path.join(uploadsDir, "staged-"));
+  const paths: string[] = [];
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    // Each file gets its own subdirectory in case two share a name
+    const target = path.join(dir, String(index), path.basename(file.originalname) || "upload");
+    await fs.promises.mkdir(path.dirname(target));
+    await fs.promises.rename(file.path, target);
+    paths.push(target);
+  }
+  return { dir, paths };
+}
+
+/**
+ * Delete uploaded files that never reached the page
+ */
+function discardUploads(files: Express.Multer.File[]): void {
+  for (const file of files) {
+    fs.promises.rm(file.path, { force: true }).catch((error) => {
+      console.error("Error cleaning up file:", error);
+    });
+  }
+}
+
+/**
+ * Delete a staging directory, after a delay when the page may still be reading it
+ */
+function removeStagedUploads(dir: string, delayMs = 0): void {
+  setTimeout(() => {
+    fs.promises.rm(dir, { recursive: true, force: true }).catch((error) => {
+      console.error("Error cleaning up staged uploads:", error);
+    });
+  }, delayMs);
+}
+
+/**
+ * Put uploaded files into the page, cleaning them up whether or not it works
+ */
+async function deliverUploads(files: Express.Multer.File[], deliver: (paths: string[]) => Promise<void>): Promise<void> {
+  const staged = await stageUploads(files);
+  try {
+    await deliver(staged.paths);
+  } catch (error) {
+    removeStagedUploads(staged.dir);
+    throw error;
+  }
+  removeStagedUploads(staged.dir, STAGED_UPLOAD_TTL_MS);
+}
+
+// Strip the password before a proxy is sent to the client
+function toPublicProxy({ password, ...proxy }: ProxyServer): PublicProxyServer {
+  return { ...proxy, hasPassword: !!password };
+}
+
+// Check that a proxy exists and belongs to the user before attaching it to a session
+async function isOwnProxy(proxyId: string, userId: string): Promise<boolean> {
+  const proxy = await storage.getProxyServer(proxyId);
+  return !!proxy && proxy.userId === userId;
+}
+
+// Add the session's place in the start queue, which only lives in memory
+function withQueuePosition(session: BrowserSession): BrowserSessionWithQueue {
+  return { ...session, queuePosition: browserManager.getQueuePosition(session.id) };
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Auth middleware
+  await setupAuth(app);
+
+  // Browser session routes
+  app.get("/api/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const sessions = await storage.getBrowserSessionsByUserId(userId);
+      res.json(sessions.map(withQueuePosition));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.get("/api/sessions/restore-status", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      res.json(getRestoreResults(userId));
+    } catch (error) {
+      console.error("Error fetching restore status:", error);
+      res.status(500).json({ message: "Failed to fetch restore status" });
+    }
+  });
+
+  app.post("/api/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const validationResult = insertBrowserSessionSchema.safeParse({
+        ...req.body,
+        userId,
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      if (validationResult.data.proxyId && !(await isOwnProxy(validationResult.data.proxyId, userId))) {
+        return res.status(400).json({ message: "Proxy not found" });
+      }
+
+      // Stored as stopped until the start queue actually starts or queues it
+      const { status, ...sessionData } = validationResult.data;
+      const session = await storage.createBrowserSession({ ...sessionData, status: "stopped" });
+      
+      // Small delay to ensure database write is fully committed
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      // Optionally auto-start the session, or queue it when at capacity
+      if (status === "running") {
+        try {
+          await browserManager.requestStart(session.id);
+        } catch (error) {
+          console.error("Failed to start session:", error);
+          // Don't fail the request, just log the error
+        }
+      }
+      
+      // Verify session is retrievable before returning
+      const verifySession = await storage.getBrowserSession(session.id);
+      if (!verifySession) {
+        console.error("Warning: Session created but not immediately retrievable");
+      }
+      
+      res.json(withQueuePosition(verifySession ?? session));
+    } catch (error) {
+      console.error("Error creating session:", error);
+      res.status(500).json({ message: "Failed to create session" });
+    }
+  });
+
+  app.patch("/api/sessions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { status, cookieExpiryPolicy, restartPolicy, idleTimeout, dialogPolicy, clipboardSync, proxyId, url, userAgent, viewportWidth, viewportHeight } = req.body;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      // Validate the cookie expiry policy before changing anything (null clears it)
+      let expiryPolicy: CookieExpiryPolicy | null | undefined = cookieExpiryPolicy;
+      if (cookieExpiryPolicy) {
+        const validationResult = cookieExpiryPolicySchema.safeParse(cookieExpiryPolicy);
+        if (!validationResult.success) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: validationResult.error.errors,
+          });
+        }
+        expiryPolicy = validationResult.data;
+      }
+
+      // Likewise the crash restart policy (null clears it)
+      let crashRestartPolicy: RestartPolicy | null | undefined = restartPolicy;
+      if (restartPolicy) {
+        const validationResult = restartPolicySchema.safeParse(restartPolicy);
+        if (!validationResult.success) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: validationResult.error.errors,
+          });
+        }
+        crashRestartPolicy = validationResult.data;
+      }
+
+      // And the idle timeout (null turns it off)
+      let idleTimeoutPolicy: IdleTimeoutPolicy | null | undefined = idleTimeout;
+      if (idleTimeout) {
+        const validationResult = idleTimeoutPolicySchema.safeParse(idleTimeout);
+        if (!validationResult.success) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: validationResult.error.errors,
+          });
+        }
+        idleTimeoutPolicy = validationResult.data;
+      }
+
+      // The dialog policy applies to the next dialog, even on a running session (null restores the default)
+      let sessionDialogPolicy: DialogPolicy | null | undefined = dialogPolicy;
+      if (dialogPolicy) {
+        const validationResult = dialogPolicySchema.safeParse(dialogPolicy);
+        if (!validationResult.success) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: validationResult.error.errors,
+          });
+        }
+        sessionDialogPolicy = validationResult.data;
+      }
+
+      if (clipboardSync !== undefined && typeof clipboardSync !== "boolean") {
+        return res.status(400).json({ message: "clipboardSync must be true or false" });
+      }
+
+      // A new proxy (or null to detach it) applies from the next start
+      if (proxyId && !(await isOwnProxy(proxyId, userId))) {
+        return res.status(400).json({ message: "Proxy not found" });
+      }
+
+      // Viewport, user agent and URL changes apply to a running session immediately
+      const settingsResult = liveSessionSettingsSchema.safeParse({ url, userAgent, viewportWidth, viewportHeight });
+      if (!settingsResult.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: settingsResult.error.errors,
+        });
+      }
+      const { url: newUrl, ...viewportSettings } = settingsResult.data;
+      const hasViewportSettings = Object.values(viewportSettings).some(value => value !== undefined);
+      const isLive = browserManager.isSessionActive(id);
+
+      if ((hasViewportSettings || newUrl) && isLive && browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
+      if (hasViewportSettings) {
+        await storage.updateBrowserSession(id, viewportSettings);
+        if (isLive) {
+          await browserManager.applyViewportSettings(id);
+        }
+      }
+      if (newUrl) {
+        // Navigating stores the URL itself; otherwise it's used on the next start
+        if (isLive) {
+          await browserManager.navigateSession(id, newUrl);
+        } else {
+          await storage.updateBrowserSession(id, { url: newUrl });
+        }
+      }
+
+      // Handle status changes
+      if (status) {
+        switch (status) {
+          case "running":
+            await browserManager.resumeSession(id);
+            break;
+          case "paused":
+            await browserManager.pauseSession(id);
+            break;
+          case "stopped":
+            await browserManager.stopSession(id);
+            break;
+          case "hibernated":
+            await browserManager.hibernateSession(id);
+            break;
+        }
+      }
+
+      if (expiryPolicy !== undefined) {
+        await storage.updateBrowserSession(id, {
+          cookieExpiryPolicy: expiryPolicy,
+          expiringCookies: null,
+        });
+      }
+
+      if (crashRestartPolicy !== undefined) {
+        await storage.updateBrowserSession(id, { restartPolicy: crashRestartPolicy });
+      }
+
+      if (idleTimeoutPolicy !== undefined) {
+        await storage.updateBrowserSession(id, { idleTimeout: idleTimeoutPolicy });
+      }
+
+      if (sessionDialogPolicy !== undefined) {
+        await storage.updateBrowserSession(id, { dialogPolicy: sessionDialogPolicy });
+      }
+
+      // Checked on every copy and paste, so it applies to a running session at once
+      if (clipboardSync !== undefined) {
+        await storage.updateBrowserSession(id, { clipboardSync });
+      }
+
+      if (proxyId !== undefined) {
+        await storage.updateBrowserSession(id, { proxyId: proxyId || null });
+      }
+
+      const updatedSession = await storage.getBrowserSession(id);
+      res.json(updatedSession && withQueuePosition(updatedSession));
+    } catch (error) {
+      console.error("Error updating session:", error);
+      res.status(500).json({ message: "Failed to update session" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      // Stop session if running
+      try {
+        await browserManager.stopSession(id);
+      } catch (error) {
+        console.error("Failed to stop session:", error);
+      }
+
+      try {
+        await browserManager.wipeProfile(id);
+      } catch (error) {
+        console.error("Failed to wipe profile:", error);
+      }
+
+      try {
+        await browserManager.wipeDownloads(id);
+      } catch (error) {
+        console.error("Failed to wipe downloads:", error);
+      }
+
+      await storage.deleteBrowserSession(id);
+      res.json({ message: "Session deleted" });
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      res.status(500).json({ message: "Failed to delete session" });
+    }
+  });
+
+  // Browser profile routes
+  app.get("/api/sessions/:id/profile", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (browserManager.isSessionActive(id)) {
+        return res.status(409).json({ message: "Stop or hibernate the session before exporting its profile" });
+      }
+
+      if (!browserManager.hasProfile(id)) {
+        return res.status(404).json({ message: "Session has no stored profile" });
+      }
+
+      const tar = browserManager.exportProfile(id);
+      res.setHeader("Content-Type", "application/gzip");
+      res.setHeader("Content-Disposition", `attachment; filename="profile-${id}.tar.gz"`);
+      let stderr = "";
+      tar.stderr.on("data", (chunk) => {
+        stderr += chunk;
+      });
+      // End the response ourselves, only once tar has reported success
+      tar.stdout.pipe(res, { end: false });
+
+      // A tar that can't be spawned reports both an error and a close
+      let failed = false;
+      const fail = (message: string) => {
+        if (failed) return;
+        failed = true;
+        console.error(`Profile export for session ${id} failed: ${message}`);
+        if (res.headersSent) {
+          // Cut the download short so it can't be mistaken for a complete archive
+          res.destroy();
+        } else {
+          res.removeHeader("Content-Disposition");
+          res.status(500).json({ message: "Failed to export profile" });
+        }
+      };
+      tar.on("error", (error) => fail(error.message));
+      tar.on("close", (code) => {
+        if (code === 0 && !failed) {
+          res.end();
+        } else {
+          fail(`tar exited with code ${code}: ${stderr.trim()}`);
+        }
+      });
+    } catch (error) {
+      console.error("Error exporting profile:", error);
+      res.status(500).json({ message: "Failed to export profile" });
+    }
+  });
+
+  app.post("/api/sessions/:id/profile", isAuthenticated, profileUpload.single('profile'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No profile uploaded" });
+      }
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (browserManager.isSessionActive(id)) {
+        return res.status(409).json({ message: "Stop or hibernate the session before importing a profile" });
+      }
+
+      await browserManager.importProfile(id, req.file.path);
+
+      // Imported profiles are only used by sessions that persist them
+      if (!session.persistProfile) {
+        await storage.updateBrowserSession(id, { persistProfile: true });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error importing profile:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to import profile" });
+    } finally {
+      // Clean up uploaded tarball
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch((err) => {
+          console.error("Error cleaning up file:", err);
+        });
+      }
+    }
+  });
+
+  app.delete("/api/sessions/:id/profile", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (browserManager.isSessionActive(id)) {
+        return res.status(409).json({ message: "Stop or hibernate the session before wiping its profile" });
+      }
+
+      await browserManager.wipeProfile(id);
+      res.json({ message: "Profile wiped" });
+    } catch (error) {
+      console.error("Error wiping profile:", error);
+      res.status(500).json({ message: "Failed to wipe profile" });
+    }
+  });
+
+  // Cookie routes
+  app.get("/api/sessions/:id/cookies", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const cookies = await storage.getSessionCookies(id);
+      res.json(cookies);
+    } catch (error) {
+      console.error("Error fetching cookies:", error);
+      res.status(500).json({ message: "Failed to fetch cookies" });
+    }
+  });
+
+  app.post("/api/sessions/:id/cookies", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      // Accept a single cookie or an array of cookies for bulk import
+      const validationResult = cookieRequestSchema.array().safeParse(
+        Array.isArray(req.body) ? req.body : [req.body]
+      );
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const created = await browserManager.storeCookies(
+        id,
+        validationResult.data.map((cookieData) => ({
+          sessionId: id,
+          name: cookieData.name,
+          value: cookieData.value,
+          domain: cookieData.domain ?? null,
+          path: cookieData.path ?? null,
+          expires: cookieData.expires ?? null,
+          httpOnly: cookieData.httpOnly,
+          secure: cookieData.secure,
+          sameSite: cookieData.sameSite ?? null,
+        }))
+      );
+
+      res.json(Array.isArray(req.body) ? created : created[0]);
+    } catch (error) {
+      console.error("Error creating cookie:", error);
+      res.status(500).json({ message: "Failed to create cookie" });
+    }
+  });
+
+  app.get("/api/sessions/:id/cookies/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const format = (req.query.format || "netscape") as CookieExportFormat;
+
+      if (!(format in cookieExportFormats)) {
+        return res.status(400).json({ message: "format must be one of netscape, json or har" });
+      }
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const cookies = await storage.getSessionCookies(id);
+      const { contentType, extension } = cookieExportFormats[format];
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="cookies-${id}.${extension}"`);
+      res.send(formatCookies(cookies, format));
+    } catch (error) {
+      console.error("Error exporting cookies:", error);
+      res.status(500).json({ message: "Failed to export cookies" });
+    }
+  });
+
+  app.get("/api/sessions/:id/warnings", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const warnings = await storage.getSessionWarnings(id);
+      res.json(warnings);
+    } catch (error) {
+      console.error("Error fetching session warnings:", error);
+      res.status(500).json({ message: "Failed to fetch session warnings" });
+    }
+  });
+
+  app.get("/api/sessions/:id/dialogs", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (!browserManager.isSessionActive(id)) {
+        return res.status(400).json({ message: "Session not running" });
+      }
+
+      res.json(browserManager.listDialogs(id));
+    } catch (error) {
+      console.error("Error fetching dialogs:", error);
+      res.status(500).json({ message: "Failed to fetch dialogs" });
+    }
+  });
+
+  app.post("/api/sessions/:id/dialogs/:dialogId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, dialogId } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const validationResult = dialogAnswerSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      if (!browserManager.isSessionActive(id)) {
+        return res.status(400).json({ message: "Session not running" });
+      }
+
+      const { accept, promptText } = validationResult.data;
+      await browserManager.answerDialog(id, dialogId, accept, promptText);
+      res.json({ message: "Dialog answered" });
+    } catch (error: any) {
+      if (error.message === "Dialog not found") {
+        return res.status(404).json({ message: "Dialog not found" });
+      }
+      console.error("Error answering dialog:", error);
+      res.status(500).json({ message: "Failed to answer dialog" });
+    }
+  });
+
+  app.get("/api/sessions/:id/downloads", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      res.json(await browserManager.listDownloads(id));
+    } catch (error) {
+      console.error("Error fetching downloads:", error);
+      res.status(500).json({ message: "Failed to fetch downloads" });
+    }
+  });
+
+  app.get("/api/sessions/:id/downloads/:downloadId/file", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, downloadId } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const download = await storage.getSessionDownload(downloadId);
+      if (!download || download.sessionId !== id) {
+        return res.status(404).json({ message: "Download not found" });
+      }
+      if (download.state !== "completed") {
+        return res.status(409).json({ message: "Download is not complete" });
+      }
+
+      const filePath = browserManager.getDownloadFilePath(id, download.id);
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ message: "Downloaded file no longer exists" });
+      }
+
+      res.download(filePath, download.fileName, (error) => {
+        if (error && !res.headersSent) {
+          console.error("Error sending download:", error);
+          res.status(500).json({ message: "Failed to send download" });
+        }
+      });
+    } catch (error) {
+      console.error("Error sending download:", error);
+      res.status(500).json({ message: "Failed to send download" });
+    }
+  });
+
+  app.get("/api/sessions/:id/runs", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const runs = await storage.getSessionRuns(id);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching session runs:", error);
+      res.status(500).json({ message: "Failed to fetch session runs" });
+    }
+  });
+
+  app.get("/api/sessions/:id/metrics", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      // Stopped sessions have no samples
+      res.json(getSessionMetrics(id));
+    } catch (error) {
+      console.error("Error fetching session metrics:", error);
+      res.status(500).json({ message: "Failed to fetch session metrics" });
+    }
+  });
+
+  app.get("/api/sessions/:id/cookies/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const mask = req.query.mask !== "false";
+      const limit = Math.min(parseInt(req.query.limit, 10) || 500, 5000);
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const events = await storage.getSessionCookieEvents(id, limit);
+      res.json(
+        mask
+          ? events.map((event) => ({
+              ...event,
+              oldValue: maskCookieValue(event.oldValue),
+              newValue: maskCookieValue(event.newValue),
+            }))
+          : events
+      );
+    } catch (error) {
+      console.error("Error fetching cookie history:", error);
+      res.status(500).json({ message: "Failed to fetch cookie history" });
+    }
+  });
+
+  app.post("/api/sessions/:id/cookies/import", isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      // Accept an uploaded file or the file contents as a "text" field
+      const text = req.file
+        ? await fs.promises.readFile(req.file.path, "utf8")
+        : req.body?.text;
+      if (typeof text !== "string" || !text.trim()) {
+        return res.status(400).json({ message: "No cookie file uploaded" });
+      }
+
+      let parsed;
+      try {
+        parsed = parseCookies(text, id);
+      } catch (error) {
+        return res.status(400).json({
+          message: error instanceof Error ? error.message : "Failed to parse cookies",
+        });
+      }
+
+      const created = await browserManager.storeCookies(id, parsed);
+
+      res.json({ imported: created.length, cookies: created });
+    } catch (error) {
+      console.error("Error importing cookies:", error);
+      res.status(500).json({ message: "Failed to import cookies" });
+    } finally {
+      // Clean up uploaded file
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch((err) => {
+          console.error("Error cleaning up file:", err);
+        });
+      }
+    }
+  });
+
+  app.patch("/api/sessions/:id/cookies/:cookieId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, cookieId } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const cookie = await storage.getCookie(cookieId);
+      if (!cookie || cookie.sessionId !== id) {
+        return res.status(404).json({ message: "Cookie not found" });
+      }
+
+      const validationResult = cookieRequestSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const updatedCookie = await browserManager.updateCookie(id, cookieId, validationResult.data);
+      res.json(updatedCookie);
+    } catch (error: any) {
+      // A sync can remove the cookie between the lookup and the queued write
+      if (error.message === "Cookie not found") {
+        return res.status(404).json({ message: "Cookie not found" });
+      }
+      console.error("Error updating cookie:", error);
+      res.status(500).json({ message: "Failed to update cookie" });
+    }
+  });
+
+  app.delete("/api/sessions/:id/cookies/:cookieId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, cookieId } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const cookie = await storage.getCookie(cookieId);
+      if (!cookie || cookie.sessionId !== id) {
+        return res.status(404).json({ message: "Cookie not found" });
+      }
 
-  // Browser session routes
-  app.get("/api/sessions", isAuthenticated, async (req: any, res) => {
+      await browserManager.deleteCookie(id, cookieId);
+      res.json({ message: "Cookie deleted" });
+    } catch (error: any) {
+      if (error.message === "Cookie not found") {
+        return res.status(404).json({ message: "Cookie not found" });
+      }
+      console.error("Error deleting cookie:", error);
+      res.status(500).json({ message: "Failed to delete cookie" });
+    }
+  });
+
+  app.get("/api/sessions/:id/web-storage", isAuthenticated, async (req: any, res) => {
     try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
       const userId = req.user.id;
-      const sessions = await storage.getBrowserSessionsByUserId(userId);
-      res.json(sessions);
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const snapshots = await storage.getSessionWebStorage(id);
+      res.json(snapshots);
     } catch (error) {
-      console.error("Error fetching sessions:", error);
-      res.status(500).json({ message: "Failed to fetch sessions" });
+      console.error("Error fetching web storage:", error);
+      res.status(500).json({ message: "Failed to fetch web storage" });
     }
   });
 
-  app.post("/api/sessions", isAuthenticated, async (req: any, res) => {
+  // Browser interaction routes
+  app.get("/api/sessions/:id/screenshot", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (!browserManager.isSessionActive(id)) {
+        return res.status(400).json({ message: "Session not running" });
+      }
+
+      const screenshot = await browserManager.getScreenshot(id);
+      res.setHeader("Content-Type", "image/png");
+      res.send(screenshot);
+    } catch (error) {
+      console.error("Error getting screenshot:", error);
+      res.status(500).json({ message: "Failed to get screenshot" });
+    }
+  });
+
+  app.get("/api/devices", isAuthenticated, async (_req, res) => {
+    try {
+      res.json(listDevicePresets());
+    } catch (error) {
+      console.error("Error listing device presets:", error);
+      res.status(500).json({ message: "Failed to list device presets" });
+    }
+  });
+
+  app.get("/api/proxies", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const validationResult = insertBrowserSessionSchema.safeParse({
+      const proxies = await storage.getProxyServersByUserId(userId);
+      res.json(proxies.map(toPublicProxy));
+    } catch (error) {
+      console.error("Error fetching proxies:", error);
+      res.status(500).json({ message: "Failed to fetch proxies" });
+    }
+  });
+
+  app.post("/api/proxies", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const validationResult = insertProxyServerSchema.safeParse({
         ...req.body,
         userId,
       });
@@ -54,38 +1087,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const session = await storage.createBrowserSession(validationResult.data);
-      
-      // Small delay to ensure database write is fully committed
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      // Optionally auto-start the session
-      if (validationResult.data.status === "running") {
-        try {
-          await browserManager.startSession(session.id);
-        } catch (error) {
-          console.error("Failed to start session:", error);
-          // Don't fail the request, just log the error
-        }
+      const proxy = await storage.createProxyServer(validationResult.data);
+      res.status(201).json(toPublicProxy(proxy));
+    } catch (error) {
+      console.error("Error creating proxy:", error);
+      res.status(500).json({ message: "Failed to create proxy" });
+    }
+  });
+
+  app.delete("/api/proxies/:proxyId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { proxyId } = req.params;
+
+      const proxy = await storage.getProxyServer(proxyId);
+      if (!proxy) {
+        return res.status(404).json({ message: "Proxy not found" });
       }
-      
-      // Verify session is retrievable before returning
-      const verifySession = await storage.getBrowserSession(session.id);
-      if (!verifySession) {
-        console.error("Warning: Session created but not immediately retrievable");
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (proxy.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
       }
-      
-      res.json(session);
+
+      await storage.deleteProxyServer(proxyId);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error creating session:", error);
-      res.status(500).json({ message: "Failed to create session" });
+      console.error("Error deleting proxy:", error);
+      res.status(500).json({ message: "Failed to delete proxy" });
     }
   });
 
-  app.patch("/api/sessions/:id", isAuthenticated, async (req: any, res) => {
+  app.post("/api/proxies/:proxyId/check", isAuthenticated, async (req: any, res) => {
+    try {
+      const { proxyId } = req.params;
+
+      const proxy = await storage.getProxyServer(proxyId);
+      if (!proxy) {
+        return res.status(404).json({ message: "Proxy not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (proxy.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const result = await checkProxy(proxy);
+      const updated = await storage.updateProxyServer(proxyId, {
+        lastCheckedAt: result.checkedAt,
+        lastCheckOk: result.ok,
+        lastCheckError: result.error ?? null,
+      });
+      res.json({ ...result, proxy: toPublicProxy(updated) });
+    } catch (error) {
+      console.error("Error checking proxy:", error);
+      res.status(500).json({ message: "Failed to check proxy" });
+    }
+  });
+
+  app.get("/api/sessions/:id/tabs", isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
 
       const session = await storage.getBrowserSession(id);
       if (!session) {
@@ -98,30 +1161,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Forbidden" });
       }
 
-      // Handle status changes
-      if (status) {
-        switch (status) {
-          case "running":
-            await browserManager.resumeSession(id);
-            break;
-          case "paused":
-            await browserManager.pauseSession(id);
-            break;
-          case "stopped":
-            await browserManager.stopSession(id);
-            break;
-        }
+      if (!browserManager.isSessionActive(id)) {
+        return res.status(400).json({ message: "Session not running" });
       }
 
-      const updatedSession = await storage.getBrowserSession(id);
-      res.json(updatedSession);
+      const tabs = await browserManager.listTabs(id);
+      res.json(tabs);
     } catch (error) {
-      console.error("Error updating session:", error);
-      res.status(500).json({ message: "Failed to update session" });
+      console.error("Error listing tabs:", error);
+      res.status(500).json({ message: "Failed to list tabs" });
     }
   });
 
-  app.delete("/api/sessions/:id", isAuthenticated, async (req: any, res) => {
+  app.post("/api/sessions/:id/tabs", isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
 
@@ -136,25 +1188,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Forbidden" });
       }
 
-      // Stop session if running
-      try {
-        await browserManager.stopSession(id);
-      } catch (error) {
-        console.error("Failed to stop session:", error);
+      if (!browserManager.isSessionActive(id)) {
+        return res.status(400).json({ message: "Session not running" });
       }
 
-      await storage.deleteBrowserSession(id);
-      res.json({ message: "Session deleted" });
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
+      const { url } = req.body;
+      const tab = await browserManager.openTab(id, url || undefined);
+      res.status(201).json(tab);
     } catch (error) {
-      console.error("Error deleting session:", error);
-      res.status(500).json({ message: "Failed to delete session" });
+      console.error("Error opening tab:", error);
+      res.status(500).json({ message: "Failed to open tab" });
     }
   });
 
-  // Cookie routes
-  app.get("/api/sessions/:id/cookies", isAuthenticated, async (req: any, res) => {
+  app.post("/api/sessions/:id/tabs/:tabId/activate", isAuthenticated, async (req: any, res) => {
     try {
-      const { id } = req.params;
+      const { id, tabId } = req.params;
 
       const session = await storage.getBrowserSession(id);
       if (!session) {
@@ -167,18 +1220,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Forbidden" });
       }
 
-      const cookies = await storage.getSessionCookies(id);
-      res.json(cookies);
-    } catch (error) {
-      console.error("Error fetching cookies:", error);
-      res.status(500).json({ message: "Failed to fetch cookies" });
+      if (!browserManager.isSessionActive(id)) {
+        return res.status(400).json({ message: "Session not running" });
+      }
+
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
+      await browserManager.activateTab(id, tabId);
+      res.json(await browserManager.listTabs(id));
+    } catch (error: any) {
+      if (error.message === "Tab not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error activating tab:", error);
+      res.status(500).json({ message: "Failed to activate tab" });
     }
   });
 
-  // Browser interaction routes
-  app.get("/api/sessions/:id/screenshot", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/sessions/:id/tabs/:tabId", isAuthenticated, async (req: any, res) => {
     try {
-      const { id } = req.params;
+      const { id, tabId } = req.params;
 
       const session = await storage.getBrowserSession(id);
       if (!session) {
@@ -195,12 +1258,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Session not running" });
       }
 
-      const screenshot = await browserManager.getScreenshot(id);
-      res.setHeader("Content-Type", "image/png");
-      res.send(screenshot);
-    } catch (error) {
-      console.error("Error getting screenshot:", error);
-      res.status(500).json({ message: "Failed to get screenshot" });
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
+      await browserManager.closeTab(id, tabId);
+      res.json(await browserManager.listTabs(id));
+    } catch (error: any) {
+      if (error.message === "Tab not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === "Cannot close the last tab") {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error closing tab:", error);
+      res.status(500).json({ message: "Failed to close tab" });
     }
   });
 
@@ -228,6 +1300,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Session not running" });
       }
 
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
       await browserManager.navigateSession(id, url);
       const currentUrl = await browserManager.getCurrentUrl(id);
       res.json({ success: true, currentUrl });
@@ -256,6 +1332,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Session not running" });
       }
 
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
       await browserManager.goBack(id);
       res.json({ success: true });
     } catch (error) {
@@ -283,6 +1363,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Session not running" });
       }
 
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
       await browserManager.goForward(id);
       res.json({ success: true });
     } catch (error) {
@@ -310,6 +1394,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Session not running" });
       }
 
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
       await browserManager.refresh(id);
       res.json({ success: true });
     } catch (error) {
@@ -342,6 +1430,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Session not running" });
       }
 
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
       await browserManager.clickAt(id, x, y);
       res.json({ success: true });
     } catch (error) {
@@ -370,6 +1462,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Session not running" });
       }
 
+      if (browserManager.isSessionPaused(id)) {
+        return res.status(409).json({ message: "Session is paused" });
+      }
+
       if (text) {
         await browserManager.typeText(id, text);
       } else if (key) {
@@ -385,58 +1481,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sessions/:id/upload", isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post("/api/sessions/:id/upload", isAuthenticated, upload.array('file', MAX_UPLOAD_FILES), async (req: any, res) => {
+    const files: Express.Multer.File[] = req.files ?? [];
     try {
       const { id } = req.params;
+      // Optional CSS selector of the file input; without one the open file chooser is answered
+      const selector = typeof req.body.selector === "string" && req.body.selector.trim()
+        ? req.body.selector.trim()
+        : undefined;
 
-      if (!req.file) {
+      if (files.length === 0) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
       const session = await storage.getBrowserSession(id);
       if (!session) {
-        // Clean up uploaded file
-        fs.unlinkSync(req.file.path);
+        discardUploads(files);
         return res.status(404).json({ message: "Session not found" });
       }
 
       // Verify ownership
       const userId = req.user.id;
       if (session.userId !== userId) {
-        // Clean up uploaded file
-        fs.unlinkSync(req.file.path);
+        discardUploads(files);
         return res.status(403).json({ message: "Forbidden" });
       }
 
       if (!browserManager.isSessionActive(id)) {
-        // Clean up uploaded file
-        fs.unlinkSync(req.file.path);
+        discardUploads(files);
         return res.status(400).json({ message: "Session not running" });
       }
 
-      await browserManager.uploadFile(id, req.file.path);
+      if (browserManager.isSessionPaused(id)) {
+        discardUploads(files);
+        return res.status(409).json({ message: "Session is paused" });
+      }
 
-      // Clean up uploaded file after upload
-      setTimeout(() => {
-        try {
-          fs.unlinkSync(req.file.path);
-        } catch (error) {
-          console.error("Error cleaning up file:", error);
-        }
-      }, 5000);
+      await deliverUploads(files, (paths) => browserManager.uploadFile(id, paths, selector));
 
-      res.json({ success: true, filename: req.file.originalname });
+      res.json({ success: true, filenames: files.map((file) => file.originalname) });
     } catch (error) {
       console.error("Error uploading file:", error);
-      // Clean up uploaded file on error
-      if (req.file) {
-        try {
-          fs.unlinkSync(req.file.path);
-        } catch (err) {
-          console.error("Error cleaning up file:", err);
+      discardUploads(files);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to upload file" });
+    }
+  });
+
+  app.get("/api/sessions/:id/file-chooser", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (!browserManager.isSessionActive(id)) {
+        return res.status(400).json({ message: "Session not running" });
+      }
+
+      res.json(browserManager.getFileChooser(id));
+    } catch (error) {
+      console.error("Error fetching file chooser:", error);
+      res.status(500).json({ message: "Failed to fetch file chooser" });
+    }
+  });
+
+  app.post(
+    "/api/sessions/:id/file-chooser/:chooserId",
+    isAuthenticated,
+    upload.array('file', MAX_UPLOAD_FILES),
+    async (req: any, res) => {
+      const files: Express.Multer.File[] = req.files ?? [];
+      try {
+        const { id, chooserId } = req.params;
+
+        if (files.length === 0) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        const session = await storage.getBrowserSession(id);
+        if (!session) {
+          discardUploads(files);
+          return res.status(404).json({ message: "Session not found" });
+        }
+
+        // Verify ownership
+        const userId = req.user.id;
+        if (session.userId !== userId) {
+          discardUploads(files);
+          return res.status(403).json({ message: "Forbidden" });
+        }
+
+        if (!browserManager.isSessionActive(id)) {
+          discardUploads(files);
+          return res.status(400).json({ message: "Session not running" });
+        }
+
+        if (browserManager.isSessionPaused(id)) {
+          discardUploads(files);
+          return res.status(409).json({ message: "Session is paused" });
+        }
+
+        await deliverUploads(files, (paths) => browserManager.acceptFileChooser(id, chooserId, paths));
+
+        res.json({ success: true, filenames: files.map((file) => file.originalname) });
+      } catch (error: any) {
+        discardUploads(files);
+        if (error.message === "File chooser not found") {
+          return res.status(404).json({ message: "File chooser not found" });
         }
+        if (error.message === "This file chooser accepts a single file") {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error answering file chooser:", error);
+        res.status(500).json({ message: "Failed to answer file chooser" });
       }
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to upload file" });
+    }
+  );
+
+  app.delete("/api/sessions/:id/file-chooser/:chooserId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, chooserId } = req.params;
+
+      const session = await storage.getBrowserSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Verify ownership
+      const userId = req.user.id;
+      if (session.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (!browserManager.isSessionActive(id)) {
+        return res.status(400).json({ message: "Session not running" });
+      }
+
+      await browserManager.cancelFileChooser(id, chooserId);
+      res.json({ message: "File chooser canceled" });
+    } catch (error: any) {
+      if (error.message === "File chooser not found") {
+        return res.status(404).json({ message: "File chooser not found" });
+      }
+      console.error("Error canceling file chooser:", error);
+      res.status(500).json({ message: "Failed to cancel file chooser" });
     }
   });
 
@@ -0,0 +1,178 @@
+import fs from "fs";
+import { browserManager } from "./browserManager";
+import type { SessionResourceSnapshot } from "./browserManager";
+import type { SessionMetrics, SessionMetricsSample } from "@shared/schema";
+
+// Linux reports CPU time in clock ticks and RSS in pages
+const CLOCK_TICKS_PER_SECOND = 100;
+const PAGE_SIZE_BYTES = 4096;
+
+// How many samples each session keeps (ten minutes at the default interval)
+const MAX_SAMPLES = 120;
+
+interface ProcessStat {
+  ppid: number;
+  // User plus system CPU time, in clock ticks
+  cpuTicks: number;
+  rssPages: number;
+}
+
+// Previous reading per session, to turn counters into rates
+interface CounterReading {
+  at: number;
+  cpuTicks?: number;
+  framesSent: number;
+}
+
+const samples = new Map<string, SessionMetricsSample[]>();
+const lastReadings = new Map<string, CounterReading>();
+
+let collectorTimer: NodeJS.Timeout | undefined;
+let collectorInterval = 5000;
+
+/**
+ * Read every process from /proc; empty where /proc isn't available
+ */
+function readProcessTable(): Map<number, ProcessStat> {
+  const table = new Map<number, ProcessStat>();
+
+  let entries: string[];
+  try {
+    entries = fs.readdirSync("/proc").filter((entry) => /^\d+$/.test(entry));
+  } catch {
+    return table;
+  }
+
+  for (const entry of entries) {
+    try {
+      const stat = fs.readFileSync(`/proc/${entry}/stat`, "utf8");
+      // The command name can contain spaces, so split after its closing parenthesis
+      const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+      table.set(parseInt(entry, 10), {
+        ppid: parseInt(fields[1], 10),
+        cpuTicks: parseInt(fields[11], 10) + parseInt(fields[12], 10),
+        rssPages: parseInt(fields[21], 10),
+      });
+    } catch {
+      // The process exited while the table was being read
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Sum CPU time and RSS over a process and all of its descendants
+ */
+function sumProcessTree(table: Map<number, ProcessStat>, rootPid: number): { cpuTicks: number; rssBytes: number } | undefined {
+  if (!table.has(rootPid)) return undefined;
+
+  const children = new Map<number, number[]>();
+  table.forEach((stat, pid) => {
+    children.set(stat.ppid, [...(children.get(stat.ppid) ?? []), pid]);
+  });
+
+  let cpuTicks = 0;
+  let rssPages = 0;
+  const pending = [rootPid];
+  let pid: number | undefined;
+  while ((pid = pending.pop()) !== undefined) {
+    const stat = table.get(pid);
+    if (!stat) continue;
+    cpuTicks += stat.cpuTicks;
+    rssPages += stat.rssPages;
+    pending.push(...(children.get(pid) ?? []));
+  }
+
+  return { cpuTicks, rssBytes: rssPages * PAGE_SIZE_BYTES };
+}
+
+function buildSample(
+  sessionId: string,
+  snapshot: SessionResourceSnapshot,
+  table: Map<number, ProcessStat>,
+  now: number,
+): SessionMetricsSample {
+  const usage = snapshot.pid ? sumProcessTree(table, snapshot.pid) : undefined;
+  const previous = lastReadings.get(sessionId);
+  lastReadings.set(sessionId, { at: now, cpuTicks: usage?.cpuTicks, framesSent: snapshot.framesSent });
+
+  const elapsedSeconds = previous ? (now - previous.at) / 1000 : 0;
+  const rate = (current: number, before: number) =>
+    elapsedSeconds > 0 ? Math.max(0, current - before) / elapsedSeconds : 0;
+
+  // Rates need a previous reading, so the first sample has no CPU figure
+  const cpuPercent =
+    usage && previous?.cpuTicks !== undefined && elapsedSeconds > 0
+      ? (rate(usage.cpuTicks, previous.cpuTicks) / CLOCK_TICKS_PER_SECOND) * 100
+      : null;
+
+  return {
+    timestamp: new Date(now),
+    cpuPercent: cpuPercent === null ? null : Math.round(cpuPercent * 10) / 10,
+    rssBytes: usage?.rssBytes ?? null,
+    jsHeapUsedBytes: snapshot.jsHeapUsedBytes ?? null,
+    jsHeapTotalBytes: snapshot.jsHeapTotalBytes ?? null,
+    domNodes: snapshot.domNodes ?? null,
+    fps: previous ? Math.round(rate(snapshot.framesSent, previous.framesSent) * 10) / 10 : 0,
+  };
+}
+
+/**
+ * Take one sample of every running session, dropping data for stopped ones
+ */
+export async function collectSessionMetrics(): Promise<void> {
+  const activeIds = browserManager.getActiveSessionIds();
+  for (const sessionId of Array.from(samples.keys())) {
+    if (!activeIds.includes(sessionId)) {
+      samples.delete(sessionId);
+      lastReadings.delete(sessionId);
+    }
+  }
+
+  const table = readProcessTable();
+  for (const sessionId of activeIds) {
+    try {
+      const snapshot = await browserManager.getResourceSnapshot(sessionId);
+      const sample = buildSample(sessionId, snapshot, table, Date.now());
+      const history = samples.get(sessionId) ?? [];
+      history.push(sample);
+      samples.set(sessionId, history.slice(-MAX_SAMPLES));
+    } catch (error) {
+      console.error(`Failed to collect metrics for session ${sessionId}:`, error);
+    }
+  }
+}
+
+/**
+ * Get a session's rolling window of samples, oldest first
+ */
+export function getSessionMetrics(sessionId: string): SessionMetrics {
+  return {
+    sessionId,
+    intervalMs: collectorInterval,
+    samples: samples.get(sessionId) ?? [],
+  };
+}
+
+/**
+ * Sample running sessions every SESSION_METRICS_INTERVAL_MS (default five seconds)
+ */
+export function startMetricsCollector(): void {
+  if (collectorTimer) return;
+  collectorInterval = Math.max(1000, parseInt(process.env.SESSION_METRICS_INTERVAL_MS || "5000", 10) || 5000);
+
+  let running = false;
+  collectorTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow collection
+    if (running) return;
+    running = true;
+    try {
+      await collectSessionMetrics();
+    } catch (error) {
+      console.error("Session metrics collection failed:", error);
+    } finally {
+      running = false;
+    }
+  }, collectorInterval);
+}
@@ -0,0 +1,38 @@
+import { storage } from "./storage";
+import type { SessionRunEndReason } from "@shared/schema";
+
+/**
+ * Close a session's open run and add its length to the session's total runtime
+ */
+export async function recordRunEnd(sessionId: string, reason: SessionRunEndReason): Promise<void> {
+  const session = await storage.getBrowserSession(sessionId);
+  if (!session?.currentRunStartedAt) return;
+
+  const startedAt = new Date(session.currentRunStartedAt).getTime();
+  // Nothing closed an interrupted run, so its last activity is the best guess of when it ended
+  const endedAt = reason === "interrupted"
+    ? new Date(Math.max(startedAt, new Date(session.lastActivityAt).getTime()))
+    : new Date();
+
+  const [latest] = await storage.getSessionRuns(sessionId, 1);
+  if (latest && !latest.endedAt) {
+    await storage.updateSessionRun(latest.id, { endedAt, endReason: reason });
+  }
+
+  await storage.updateBrowserSession(sessionId, {
+    currentRunStartedAt: null,
+    totalRuntimeSeconds: session.totalRuntimeSeconds + Math.round((endedAt.getTime() - startedAt) / 1000),
+  });
+}
+
+/**
+ * Open a run for a session whose browser just started
+ */
+export async function recordRunStart(sessionId: string): Promise<void> {
+  // A run still open here was cut short by the server going down
+  await recordRunEnd(sessionId, "interrupted");
+
+  const startedAt = new Date();
+  await storage.createSessionRun({ sessionId, startedAt, endedAt: null, endReason: null });
+  await storage.updateBrowserSession(sessionId, { currentRunStartedAt: startedAt });
+}
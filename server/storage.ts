@@ -1,28 +1,93 @@
 import type {
   User,
+  UpsertUser,
   BrowserSession,
   InsertBrowserSession,
   Cookie,
   InsertCookie,
+  WebStorageSnapshot,
+  InsertWebStorageSnapshot,
+  CookieEvent,
+  InsertCookieEvent,
+  SessionWarning,
+  InsertSessionWarning,
+  SessionRun,
+  InsertSessionRun,
+  SessionDownload,
+  InsertSessionDownload,
+  UpdateBrowserSession,
+  ProxyServer,
+  InsertProxyServer,
+} from "@shared/schema";
+import {
+  users,
+  browserSessions,
+  cookies,
+  webStorage,
+  cookieEvents,
+  sessionWarnings,
+  sessionRuns,
+  sessionDownloads,
+  proxyServers,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { asc, desc, eq } from "drizzle-orm";
+import { createDb, type Database } from "./db";
 
 // Interface for storage operations
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
+  upsertUser(user: UpsertUser): Promise<User>;
   
   // Browser session operations
   getBrowserSession(id: string): Promise<BrowserSession | undefined>;
   getBrowserSessionsByUserId(userId: string): Promise<BrowserSession[]>;
+  getAllBrowserSessions(): Promise<BrowserSession[]>;
   createBrowserSession(session: InsertBrowserSession): Promise<BrowserSession>;
-  updateBrowserSession(id: string, updates: Partial<InsertBrowserSession>): Promise<BrowserSession>;
+  updateBrowserSession(id: string, updates: UpdateBrowserSession): Promise<BrowserSession>;
   deleteBrowserSession(id: string): Promise<void>;
   
   // Cookie operations
   getSessionCookies(sessionId: string): Promise<Cookie[]>;
+  getCookie(id: string): Promise<Cookie | undefined>;
   createCookie(cookie: InsertCookie): Promise<Cookie>;
+  updateCookie(id: string, updates: Partial<InsertCookie>): Promise<Cookie>;
+  deleteCookie(id: string): Promise<void>;
   clearSessionCookies(sessionId: string): Promise<void>;
+
+  // Cookie history operations
+  getSessionCookieEvents(sessionId: string, limit?: number): Promise<CookieEvent[]>;
+  createCookieEvent(event: InsertCookieEvent): Promise<CookieEvent>;
+
+  // Session warning operations
+  getSessionWarnings(sessionId: string, limit?: number): Promise<SessionWarning[]>;
+  createSessionWarning(warning: InsertSessionWarning): Promise<SessionWarning>;
+
+  // Session run log operations
+  getSessionRuns(sessionId: string, limit?: number): Promise<SessionRun[]>;
+  createSessionRun(run: InsertSessionRun): Promise<SessionRun>;
+  updateSessionRun(id: string, updates: Partial<Pick<SessionRun, "endedAt" | "endReason">>): Promise<SessionRun>;
+
+  // Download operations
+  getSessionDownloads(sessionId: string, limit?: number): Promise<SessionDownload[]>;
+  getSessionDownload(id: string): Promise<SessionDownload | undefined>;
+  createSessionDownload(download: InsertSessionDownload): Promise<SessionDownload>;
+  updateSessionDownload(
+    id: string,
+    updates: Partial<Pick<SessionDownload, "state" | "receivedBytes" | "totalBytes" | "completedAt">>
+  ): Promise<SessionDownload>;
+
+  // Web storage operations
+  getSessionWebStorage(sessionId: string): Promise<WebStorageSnapshot[]>;
+  upsertWebStorage(snapshot: InsertWebStorageSnapshot): Promise<WebStorageSnapshot>;
+
+  // Proxy pool operations
+  getProxyServer(id: string): Promise<ProxyServer | undefined>;
+  getProxyServersByUserId(userId: string): Promise<ProxyServer[]>;
+  createProxyServer(proxy: InsertProxyServer): Promise<ProxyServer>;
+  updateProxyServer(id: string, updates: Partial<Omit<ProxyServer, "id" | "userId" | "createdAt">>): Promise<ProxyServer>;
+  deleteProxyServer(id: string): Promise<void>;
 }
 
 // In-memory storage implementation
@@ -30,12 +95,25 @@ export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
   private browserSessions: Map<string, BrowserSession> = new Map();
   private cookies: Map<string, Cookie> = new Map();
+  private webStorage: Map<string, WebStorageSnapshot> = new Map();
+  private cookieEvents: CookieEvent[] = [];
+  private sessionWarnings: SessionWarning[] = [];
+  private sessionRuns: SessionRun[] = [];
+  private sessionDownloads: Map<string, SessionDownload> = new Map();
+  private proxyServers: Map<string, ProxyServer> = new Map();
 
   constructor() {
     // Initialize admin user
+    const now = new Date();
     this.users.set("admin", {
       id: "admin",
       username: process.env.ADMIN_USERNAME || "admin",
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      createdAt: now,
+      updatedAt: now,
     });
   }
 
@@ -44,6 +122,24 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const id = userData.id || randomUUID();
+    const existing = this.users.get(id);
+    const now = new Date();
+    const user: User = {
+      id,
+      username: userData.username ?? existing?.username ?? null,
+      email: userData.email ?? existing?.email ?? null,
+      firstName: userData.firstName ?? existing?.firstName ?? null,
+      lastName: userData.lastName ?? existing?.lastName ?? null,
+      profileImageUrl: userData.profileImageUrl ?? existing?.profileImageUrl ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
   // Browser session operations
   async getBrowserSession(id: string): Promise<BrowserSession | undefined> {
     return this.browserSessions.get(id);
@@ -55,6 +151,11 @@ export class MemStorage implements IStorage {
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
+  async getAllBrowserSessions(): Promise<BrowserSession[]> {
+    return Array.from(this.browserSessions.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
   async createBrowserSession(sessionData: InsertBrowserSession): Promise<BrowserSession> {
     const id = randomUUID();
     const now = new Date();
@@ -63,10 +164,25 @@ export class MemStorage implements IStorage {
       userId: sessionData.userId,
       url: sessionData.url,
       status: sessionData.status || "stopped",
-      userAgent: sessionData.userAgent,
+      userAgent: sessionData.userAgent || null,
       viewportWidth: sessionData.viewportWidth || 1920,
       viewportHeight: sessionData.viewportHeight || 1080,
-      sessionData: sessionData.sessionData,
+      sessionData: sessionData.sessionData ?? null,
+      persistProfile: sessionData.persistProfile ?? false,
+      clipboardSync: sessionData.clipboardSync ?? false,
+      cookieExpiryPolicy: sessionData.cookieExpiryPolicy ?? null,
+      launchProfile: sessionData.launchProfile ?? null,
+      deviceEmulation: sessionData.deviceEmulation ?? null,
+      proxyId: sessionData.proxyId ?? null,
+      expiringCookies: null,
+      restartPolicy: sessionData.restartPolicy ?? null,
+      idleTimeout: sessionData.idleTimeout ?? null,
+      dialogPolicy: sessionData.dialogPolicy ?? null,
+      restartCount: 0,
+      currentRunStartedAt: null,
+      totalRuntimeSeconds: 0,
+      lastError: null,
+      lastErrorAt: null,
       lastActivityAt: now,
       createdAt: now,
       updatedAt: now,
@@ -77,7 +193,7 @@ export class MemStorage implements IStorage {
 
   async updateBrowserSession(
     id: string,
-    updates: Partial<InsertBrowserSession>
+    updates: UpdateBrowserSession
   ): Promise<BrowserSession> {
     const session = this.browserSessions.get(id);
     if (!session) {
@@ -96,13 +212,28 @@ export class MemStorage implements IStorage {
 
   async deleteBrowserSession(id: string): Promise<void> {
     this.browserSessions.delete(id);
-    // Also delete associated cookies
+    // Also delete associated cookies, web storage, cookie history and warnings
     const entries = Array.from(this.cookies.entries());
     for (const [cookieId, cookie] of entries) {
       if (cookie.sessionId === id) {
         this.cookies.delete(cookieId);
       }
     }
+    const snapshots = Array.from(this.webStorage.entries());
+    for (const [snapshotId, snapshot] of snapshots) {
+      if (snapshot.sessionId === id) {
+        this.webStorage.delete(snapshotId);
+      }
+    }
+    this.cookieEvents = this.cookieEvents.filter(event => event.sessionId !== id);
+    this.sessionWarnings = this.sessionWarnings.filter(warning => warning.sessionId !== id);
+    this.sessionRuns = this.sessionRuns.filter(run => run.sessionId !== id);
+    const downloads = Array.from(this.sessionDownloads.entries());
+    for (const [downloadId, download] of downloads) {
+      if (download.sessionId === id) {
+        this.sessionDownloads.delete(downloadId);
+      }
+    }
   }
 
   // Cookie operations
@@ -111,6 +242,10 @@ export class MemStorage implements IStorage {
     return allCookies.filter(cookie => cookie.sessionId === sessionId);
   }
 
+  async getCookie(id: string): Promise<Cookie | undefined> {
+    return this.cookies.get(id);
+  }
+
   async createCookie(cookieData: InsertCookie): Promise<Cookie> {
     const id = randomUUID();
     const now = new Date();
@@ -132,6 +267,125 @@ export class MemStorage implements IStorage {
     return cookie;
   }
 
+  async updateCookie(id: string, updates: Partial<InsertCookie>): Promise<Cookie> {
+    const cookie = this.cookies.get(id);
+    if (!cookie) {
+      throw new Error("Cookie not found");
+    }
+
+    const updatedCookie: Cookie = {
+      ...cookie,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    this.cookies.set(id, updatedCookie);
+    return updatedCookie;
+  }
+
+  async deleteCookie(id: string): Promise<void> {
+    this.cookies.delete(id);
+  }
+
+  // Cookie history operations
+  async getSessionCookieEvents(sessionId: string, limit = 500): Promise<CookieEvent[]> {
+    return this.cookieEvents
+      .filter(event => event.sessionId === sessionId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async createCookieEvent(eventData: InsertCookieEvent): Promise<CookieEvent> {
+    const event: CookieEvent = {
+      ...eventData,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.cookieEvents.push(event);
+    return event;
+  }
+
+  // Session warning operations
+  async getSessionWarnings(sessionId: string, limit = 100): Promise<SessionWarning[]> {
+    return this.sessionWarnings
+      .filter(warning => warning.sessionId === sessionId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async createSessionWarning(warningData: InsertSessionWarning): Promise<SessionWarning> {
+    const warning: SessionWarning = {
+      ...warningData,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.sessionWarnings.push(warning);
+    return warning;
+  }
+
+  // Session run log operations
+  async getSessionRuns(sessionId: string, limit = 100): Promise<SessionRun[]> {
+    return this.sessionRuns
+      .filter(run => run.sessionId === sessionId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async createSessionRun(runData: InsertSessionRun): Promise<SessionRun> {
+    const run: SessionRun = {
+      ...runData,
+      id: randomUUID(),
+    };
+    this.sessionRuns.push(run);
+    return run;
+  }
+
+  async updateSessionRun(
+    id: string,
+    updates: Partial<Pick<SessionRun, "endedAt" | "endReason">>
+  ): Promise<SessionRun> {
+    const run = this.sessionRuns.find(existing => existing.id === id);
+    if (!run) {
+      throw new Error("Session run not found");
+    }
+    Object.assign(run, updates);
+    return run;
+  }
+
+  // Download operations
+  async getSessionDownloads(sessionId: string, limit = 100): Promise<SessionDownload[]> {
+    return Array.from(this.sessionDownloads.values())
+      .filter(download => download.sessionId === sessionId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getSessionDownload(id: string): Promise<SessionDownload | undefined> {
+    return this.sessionDownloads.get(id);
+  }
+
+  async createSessionDownload(downloadData: InsertSessionDownload): Promise<SessionDownload> {
+    const download: SessionDownload = {
+      ...downloadData,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    this.sessionDownloads.set(download.id, download);
+    return download;
+  }
+
+  async updateSessionDownload(
+    id: string,
+    updates: Partial<Pick<SessionDownload, "state" | "receivedBytes" | "totalBytes" | "completedAt">>
+  ): Promise<SessionDownload> {
+    const download = this.sessionDownloads.get(id);
+    if (!download) {
+      throw new Error("Download not found");
+    }
+    Object.assign(download, updates);
+    return download;
+  }
+
   async clearSessionCookies(sessionId: string): Promise<void> {
     const entries = Array.from(this.cookies.entries());
     for (const [cookieId, cookie] of entries) {
@@ -140,6 +394,422 @@ export class MemStorage implements IStorage {
       }
     }
   }
+
+  // Web storage operations
+  async getSessionWebStorage(sessionId: string): Promise<WebStorageSnapshot[]> {
+    return Array.from(this.webStorage.values())
+      .filter(snapshot => snapshot.sessionId === sessionId);
+  }
+
+  async upsertWebStorage(snapshotData: InsertWebStorageSnapshot): Promise<WebStorageSnapshot> {
+    const existing = Array.from(this.webStorage.values()).find(
+      snapshot => snapshot.sessionId === snapshotData.sessionId && snapshot.origin === snapshotData.origin
+    );
+    const now = new Date();
+    const snapshot: WebStorageSnapshot = {
+      id: existing?.id ?? randomUUID(),
+      sessionId: snapshotData.sessionId,
+      origin: snapshotData.origin,
+      localStorage: snapshotData.localStorage,
+      sessionStorage: snapshotData.sessionStorage,
+      indexedDb: snapshotData.indexedDb ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.webStorage.set(snapshot.id, snapshot);
+    return snapshot;
+  }
+
+  // Proxy pool operations
+  async getProxyServer(id: string): Promise<ProxyServer | undefined> {
+    return this.proxyServers.get(id);
+  }
+
+  async getProxyServersByUserId(userId: string): Promise<ProxyServer[]> {
+    return Array.from(this.proxyServers.values())
+      .filter(proxy => proxy.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createProxyServer(proxyData: InsertProxyServer): Promise<ProxyServer> {
+    const now = new Date();
+    const proxy: ProxyServer = {
+      id: randomUUID(),
+      userId: proxyData.userId,
+      name: proxyData.name,
+      protocol: proxyData.protocol,
+      host: proxyData.host,
+      port: proxyData.port,
+      username: proxyData.username ?? null,
+      password: proxyData.password ?? null,
+      lastCheckedAt: null,
+      lastCheckOk: null,
+      lastCheckError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.proxyServers.set(proxy.id, proxy);
+    return proxy;
+  }
+
+  async updateProxyServer(
+    id: string,
+    updates: Partial<Omit<ProxyServer, "id" | "userId" | "createdAt">>
+  ): Promise<ProxyServer> {
+    const proxy = this.proxyServers.get(id);
+    if (!proxy) {
+      throw new Error("Proxy not found");
+    }
+    const updated: ProxyServer = {
+      ...proxy,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.proxyServers.set(id, updated);
+    return updated;
+  }
+
+  async deleteProxyServer(id: string): Promise<void> {
+    this.proxyServers.delete(id);
+
+    // Detach the proxy from sessions using it, like ON DELETE SET NULL
+    const sessions = Array.from(this.browserSessions.values());
+    for (const session of sessions) {
+      if (session.proxyId === id) {
+        this.browserSessions.set(session.id, { ...session, proxyId: null });
+      }
+    }
+  }
+}
+
+// Postgres-backed storage implementation using Drizzle
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values(userData)
+      .onConflictDoUpdate({
+        target: users.id,
+        set: {
+          ...userData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return user;
+  }
+
+  // Browser session operations
+  async getBrowserSession(id: string): Promise<BrowserSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(browserSessions)
+      .where(eq(browserSessions.id, id));
+    return session;
+  }
+
+  async getBrowserSessionsByUserId(userId: string): Promise<BrowserSession[]> {
+    return await this.db
+      .select()
+      .from(browserSessions)
+      .where(eq(browserSessions.userId, userId))
+      .orderBy(asc(browserSessions.createdAt));
+  }
+
+  async getAllBrowserSessions(): Promise<BrowserSession[]> {
+    return await this.db
+      .select()
+      .from(browserSessions)
+      .orderBy(asc(browserSessions.createdAt));
+  }
+
+  async createBrowserSession(sessionData: InsertBrowserSession): Promise<BrowserSession> {
+    const [session] = await this.db
+      .insert(browserSessions)
+      .values({
+        userId: sessionData.userId,
+        url: sessionData.url,
+        status: sessionData.status || "stopped",
+        userAgent: sessionData.userAgent || null,
+        viewportWidth: sessionData.viewportWidth || 1920,
+        viewportHeight: sessionData.viewportHeight || 1080,
+        sessionData: sessionData.sessionData ?? null,
+        persistProfile: sessionData.persistProfile ?? false,
+        clipboardSync: sessionData.clipboardSync ?? false,
+        cookieExpiryPolicy: sessionData.cookieExpiryPolicy ?? null,
+        launchProfile: sessionData.launchProfile ?? null,
+        deviceEmulation: sessionData.deviceEmulation ?? null,
+        proxyId: sessionData.proxyId ?? null,
+        restartPolicy: sessionData.restartPolicy ?? null,
+        idleTimeout: sessionData.idleTimeout ?? null,
+        dialogPolicy: sessionData.dialogPolicy ?? null,
+      })
+      .returning();
+    return session;
+  }
+
+  async updateBrowserSession(
+    id: string,
+    updates: UpdateBrowserSession
+  ): Promise<BrowserSession> {
+    const [session] = await this.db
+      .update(browserSessions)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(eq(browserSessions.id, id))
+      .returning();
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    return session;
+  }
+
+  async deleteBrowserSession(id: string): Promise<void> {
+    // Dependent rows are removed by the ON DELETE CASCADE foreign keys
+    await this.db.delete(browserSessions).where(eq(browserSessions.id, id));
+  }
+
+  // Cookie operations
+  async getSessionCookies(sessionId: string): Promise<Cookie[]> {
+    return await this.db
+      .select()
+      .from(cookies)
+      .where(eq(cookies.sessionId, sessionId));
+  }
+
+  async getCookie(id: string): Promise<Cookie | undefined> {
+    const [cookie] = await this.db.select().from(cookies).where(eq(cookies.id, id));
+    return cookie;
+  }
+
+  async createCookie(cookieData: InsertCookie): Promise<Cookie> {
+    const [cookie] = await this.db
+      .insert(cookies)
+      .values({
+        sessionId: cookieData.sessionId,
+        name: cookieData.name,
+        value: cookieData.value,
+        domain: cookieData.domain || null,
+        path: cookieData.path || null,
+        expires: cookieData.expires || null,
+        httpOnly: cookieData.httpOnly || false,
+        secure: cookieData.secure || false,
+        sameSite: cookieData.sameSite || null,
+      })
+      .returning();
+    return cookie;
+  }
+
+  async updateCookie(id: string, updates: Partial<InsertCookie>): Promise<Cookie> {
+    const [cookie] = await this.db
+      .update(cookies)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(eq(cookies.id, id))
+      .returning();
+    if (!cookie) {
+      throw new Error("Cookie not found");
+    }
+    return cookie;
+  }
+
+  async deleteCookie(id: string): Promise<void> {
+    await this.db.delete(cookies).where(eq(cookies.id, id));
+  }
+
+  // Cookie history operations
+  async getSessionCookieEvents(sessionId: string, limit = 500): Promise<CookieEvent[]> {
+    return await this.db
+      .select()
+      .from(cookieEvents)
+      .where(eq(cookieEvents.sessionId, sessionId))
+      .orderBy(desc(cookieEvents.createdAt))
+      .limit(limit);
+  }
+
+  async createCookieEvent(eventData: InsertCookieEvent): Promise<CookieEvent> {
+    const [event] = await this.db.insert(cookieEvents).values(eventData).returning();
+    return event;
+  }
+
+  // Session warning operations
+  async getSessionWarnings(sessionId: string, limit = 100): Promise<SessionWarning[]> {
+    return await this.db
+      .select()
+      .from(sessionWarnings)
+      .where(eq(sessionWarnings.sessionId, sessionId))
+      .orderBy(desc(sessionWarnings.createdAt))
+      .limit(limit);
+  }
+
+  async createSessionWarning(warningData: InsertSessionWarning): Promise<SessionWarning> {
+    const [warning] = await this.db.insert(sessionWarnings).values(warningData).returning();
+    return warning;
+  }
+
+  // Session run log operations
+  async getSessionRuns(sessionId: string, limit = 100): Promise<SessionRun[]> {
+    return await this.db
+      .select()
+      .from(sessionRuns)
+      .where(eq(sessionRuns.sessionId, sessionId))
+      .orderBy(desc(sessionRuns.startedAt))
+      .limit(limit);
+  }
+
+  async createSessionRun(runData: InsertSessionRun): Promise<SessionRun> {
+    const [run] = await this.db.insert(sessionRuns).values(runData).returning();
+    return run;
+  }
+
+  async updateSessionRun(
+    id: string,
+    updates: Partial<Pick<SessionRun, "endedAt" | "endReason">>
+  ): Promise<SessionRun> {
+    const [run] = await this.db
+      .update(sessionRuns)
+      .set(updates)
+      .where(eq(sessionRuns.id, id))
+      .returning();
+    if (!run) {
+      throw new Error("Session run not found");
+    }
+    return run;
+  }
+
+  // Download operations
+  async getSessionDownloads(sessionId: string, limit = 100): Promise<SessionDownload[]> {
+    return await this.db
+      .select()
+      .from(sessionDownloads)
+      .where(eq(sessionDownloads.sessionId, sessionId))
+      .orderBy(desc(sessionDownloads.createdAt))
+      .limit(limit);
+  }
+
+  async getSessionDownload(id: string): Promise<SessionDownload | undefined> {
+    const [download] = await this.db.select().from(sessionDownloads).where(eq(sessionDownloads.id, id));
+    return download;
+  }
+
+  async createSessionDownload(downloadData: InsertSessionDownload): Promise<SessionDownload> {
+    const [download] = await this.db.insert(sessionDownloads).values(downloadData).returning();
+    return download;
+  }
+
+  async updateSessionDownload(
+    id: string,
+    updates: Partial<Pick<SessionDownload, "state" | "receivedBytes" | "totalBytes" | "completedAt">>
+  ): Promise<SessionDownload> {
+    const [download] = await this.db
+      .update(sessionDownloads)
+      .set(updates)
+      .where(eq(sessionDownloads.id, id))
+      .returning();
+    if (!download) {
+      throw new Error("Download not found");
+    }
+    return download;
+  }
+
+  async clearSessionCookies(sessionId: string): Promise<void> {
+    await this.db.delete(cookies).where(eq(cookies.sessionId, sessionId));
+  }
+
+  // Web storage operations
+  async getSessionWebStorage(sessionId: string): Promise<WebStorageSnapshot[]> {
+    return await this.db
+      .select()
+      .from(webStorage)
+      .where(eq(webStorage.sessionId, sessionId));
+  }
+
+  async upsertWebStorage(snapshotData: InsertWebStorageSnapshot): Promise<WebStorageSnapshot> {
+    const [snapshot] = await this.db
+      .insert(webStorage)
+      .values(snapshotData)
+      .onConflictDoUpdate({
+        target: [webStorage.sessionId, webStorage.origin],
+        set: {
+          localStorage: snapshotData.localStorage,
+          sessionStorage: snapshotData.sessionStorage,
+          indexedDb: snapshotData.indexedDb,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return snapshot;
+  }
+
+  // Proxy pool operations
+  async getProxyServer(id: string): Promise<ProxyServer | undefined> {
+    const [proxy] = await this.db.select().from(proxyServers).where(eq(proxyServers.id, id));
+    return proxy;
+  }
+
+  async getProxyServersByUserId(userId: string): Promise<ProxyServer[]> {
+    return await this.db
+      .select()
+      .from(proxyServers)
+      .where(eq(proxyServers.userId, userId))
+      .orderBy(asc(proxyServers.name));
+  }
+
+  async createProxyServer(proxyData: InsertProxyServer): Promise<ProxyServer> {
+    const [proxy] = await this.db.insert(proxyServers).values(proxyData).returning();
+    return proxy;
+  }
+
+  async updateProxyServer(
+    id: string,
+    updates: Partial<Omit<ProxyServer, "id" | "userId" | "createdAt">>
+  ): Promise<ProxyServer> {
+    const [proxy] = await this.db
+      .update(proxyServers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(proxyServers.id, id))
+      .returning();
+    if (!proxy) {
+      throw new Error("Proxy not found");
+    }
+    return proxy;
+  }
+
+  async deleteProxyServer(id: string): Promise<void> {
+    // Sessions using the proxy are detached by the ON DELETE SET NULL foreign key
+    await this.db.delete(proxyServers).where(eq(proxyServers.id, id));
+  }
+}
+
+/**
+ * Pick the storage backend from STORAGE_DRIVER ("memory" or "postgres").
+ * Defaults to Postgres whenever DATABASE_URL is set.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "postgres":
+      console.log("Using Postgres storage");
+      return new DatabaseStorage(createDb().db);
+    case "memory":
+      console.log("Using in-memory storage");
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -1,55 +1,441 @@
+import { sql } from "drizzle-orm";
+import {
+  bigint,
+  boolean,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { z } from "zod";
 
-// Simple user type for admin authentication
-export interface User {
-  id: string;
-  username: string;
+// Session storage table for express-session (connect-pg-simple)
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: jsonb("sess").notNull(),
+    expire: timestamp("expire").notNull(),
+  },
+  (table) => [index("IDX_session_expire").on(table.expire)],
+);
+
+// Users table
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: varchar("username"),
+  email: varchar("email").unique(),
+  firstName: varchar("first_name"),
+  lastName: varchar("last_name"),
+  profileImageUrl: varchar("profile_image_url"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type UpsertUser = typeof users.$inferInsert;
+export type User = typeof users.$inferSelect;
+
+// Proxy pool: proxies a user defines once and attaches to any number of sessions
+export const proxyProtocols = ["http", "https", "socks5"] as const;
+export type ProxyProtocol = (typeof proxyProtocols)[number];
+
+export const proxyServers = pgTable(
+  "proxy_servers",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    protocol: varchar("protocol").$type<ProxyProtocol>().notNull(),
+    host: varchar("host").notNull(),
+    port: integer("port").notNull(),
+    username: varchar("username"),
+    password: varchar("password"),
+    lastCheckedAt: timestamp("last_checked_at"),
+    lastCheckOk: boolean("last_check_ok"),
+    lastCheckError: varchar("last_check_error"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_proxy_servers_user_id").on(table.userId)],
+);
+
+// Proxy server type
+export type ProxyServer = typeof proxyServers.$inferSelect;
+
+// Proxy as sent to the client: the password never leaves the server
+export type PublicProxyServer = Omit<ProxyServer, "password"> & { hasPassword: boolean };
+
+export const insertProxyServerSchema = z
+  .object({
+    userId: z.string(),
+    name: z.string().min(1),
+    protocol: z.enum(proxyProtocols),
+    host: z.string().min(1),
+    port: z.coerce.number().int().min(1).max(65535),
+    username: z.string().optional(),
+    password: z.string().optional(),
+  })
+  // Chromium can't answer SOCKS5 authentication, so page.authenticate won't help there
+  .refine((proxy) => proxy.protocol !== "socks5" || !proxy.username, {
+    message: "Chromium does not support SOCKS5 proxies with a username and password",
+    path: ["username"],
+  });
+
+export type InsertProxyServer = z.infer<typeof insertProxyServerSchema>;
+
+// Result of routing a test request through a proxy
+export interface ProxyCheckResult {
+  ok: boolean;
+  latencyMs?: number;
+  error?: string;
+  checkedAt: Date;
 }
 
-// Browser session type
-export interface BrowserSession {
-  id: string;
-  userId: string;
-  url: string;
-  status: "running" | "paused" | "stopped" | "error";
-  userAgent?: string;
+// Browser session lifecycle states. "hibernated" sessions have Chromium closed
+// but keep their persistent profile on disk.
+export const sessionStatuses = ["running", "paused", "stopped", "error", "hibernated", "queued"] as const;
+export type SessionStatus = (typeof sessionStatuses)[number];
+
+// Which cookies to watch for expiry, and how to try to renew them
+export const cookieExpiryPolicySchema = z.object({
+  // Cookie name patterns, "*" matches any run of characters
+  patterns: z.array(z.string().min(1)).default([]),
+  thresholdMinutes: z.number().int().positive().default(60),
+  keepAlive: z.enum(["none", "refresh", "navigate"]).default("none"),
+  keepAliveUrl: z.string().url().optional(),
+});
+
+export type CookieExpiryPolicy = z.infer<typeof cookieExpiryPolicySchema>;
+
+// How Chromium is launched for a session; unset fields fall back to the global default
+export const launchProfileSchema = z.object({
+  executablePath: z.string().min(1).optional(),
+  headless: z.boolean().optional(),
+  extraArgs: z.array(z.string().min(1)).optional(),
+  proxy: z
+    .object({
+      server: z.string().min(1),
+      username: z.string().optional(),
+      password: z.string().optional(),
+    })
+    .optional(),
+  locale: z.string().min(2).optional(),
+  timezone: z.string().min(1).optional(),
+  geolocation: z
+    .object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      accuracy: z.number().nonnegative().optional(),
+    })
+    .optional(),
+  deviceScaleFactor: z.number().positive().max(5).optional(),
+});
+
+export type LaunchProfile = z.infer<typeof launchProfileSchema>;
+
+// Mobile/tablet emulation applied on top of the session's viewport and user agent
+export const deviceEmulationSchema = z.object({
+  // Name of the Puppeteer KnownDevices preset this came from
+  preset: z.string().optional(),
+  deviceScaleFactor: z.number().positive().max(5),
+  isMobile: z.boolean(),
+  hasTouch: z.boolean(),
+});
+
+export type DeviceEmulation = z.infer<typeof deviceEmulationSchema>;
+
+// Whether and how a session is relaunched after Chromium or a tab crashes
+export const restartPolicySchema = z.object({
+  enabled: z.boolean().default(false),
+  // Give up once this many restarts happen within the window
+  maxRestarts: z.number().int().min(1).max(20).default(3),
+  windowMinutes: z.number().int().positive().default(10),
+  // Delay before the first restart, doubled for each recent restart
+  initialBackoffMs: z.number().int().min(100).default(1000),
+  maxBackoffMs: z.number().int().min(100).default(60000),
+});
+
+export type RestartPolicy = z.infer<typeof restartPolicySchema>;
+
+// What to do with a running session after it has been idle for a while
+export const idleTimeoutPolicySchema = z.object({
+  action: z.enum(["pause", "stop"]),
+  minutes: z.number().int().min(1).max(7 * 24 * 60),
+});
+
+export type IdleTimeoutPolicy = z.infer<typeof idleTimeoutPolicySchema>;
+
+// How alert/confirm/prompt/beforeunload dialogs are answered
+export const dialogPolicySchema = z.object({
+  // "ask" shows the dialog to viewers and waits for an answer
+  mode: z.enum(["ask", "accept", "dismiss"]).default("ask"),
+  // Unanswered dialogs block the page, so "ask" gives up after this long
+  timeoutSeconds: z.number().int().min(5).max(3600).default(60),
+  timeoutAction: z.enum(["accept", "dismiss"]).default("dismiss"),
+});
+
+export type DialogPolicy = z.infer<typeof dialogPolicySchema>;
+
+// A named device preset offered to the client
+export interface DevicePreset {
+  name: string;
+  userAgent: string;
   viewportWidth: number;
   viewportHeight: number;
-  sessionData?: any;
-  lastActivityAt: Date;
-  createdAt: Date;
-  updatedAt: Date;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+// A watched cookie that is about to expire
+export interface ExpiringCookie {
+  name: string;
+  domain: string | null;
+  expires: Date;
 }
 
+// Browser sessions table
+export const browserSessions = pgTable(
+  "browser_sessions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    url: varchar("url").notNull(),
+    status: varchar("status")
+      .$type<SessionStatus>()
+      .notNull()
+      .default("stopped"),
+    userAgent: varchar("user_agent"),
+    viewportWidth: integer("viewport_width").notNull().default(1920),
+    viewportHeight: integer("viewport_height").notNull().default(1080),
+    sessionData: jsonb("session_data"),
+    persistProfile: boolean("persist_profile").notNull().default(false),
+    // Whether viewers may paste into and copy out of the page
+    clipboardSync: boolean("clipboard_sync").notNull().default(false),
+    cookieExpiryPolicy: jsonb("cookie_expiry_policy").$type<CookieExpiryPolicy>(),
+    launchProfile: jsonb("launch_profile").$type<LaunchProfile>(),
+    deviceEmulation: jsonb("device_emulation").$type<DeviceEmulation>(),
+    // A proxy from the pool; overrides any proxy in the launch profile
+    proxyId: varchar("proxy_id").references(() => proxyServers.id, { onDelete: "set null" }),
+    expiringCookies: jsonb("expiring_cookies").$type<ExpiringCookie[]>(),
+    restartPolicy: jsonb("restart_policy").$type<RestartPolicy>(),
+    idleTimeout: jsonb("idle_timeout").$type<IdleTimeoutPolicy>(),
+    dialogPolicy: jsonb("dialog_policy").$type<DialogPolicy>(),
+    restartCount: integer("restart_count").notNull().default(0),
+    // Start of the current run, and the length of all finished runs
+    currentRunStartedAt: timestamp("current_run_started_at"),
+    totalRuntimeSeconds: integer("total_runtime_seconds").notNull().default(0),
+    // Why the session last went into the "error" status
+    lastError: varchar("last_error"),
+    lastErrorAt: timestamp("last_error_at"),
+    lastActivityAt: timestamp("last_activity_at").notNull().defaultNow(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_browser_sessions_user_id").on(table.userId)],
+);
+
+// Browser session type
+export type BrowserSession = typeof browserSessions.$inferSelect;
+
 export const insertBrowserSessionSchema = z.object({
   userId: z.string(),
   url: z.string().url(),
-  status: z.enum(["running", "paused", "stopped", "error"]).default("stopped"),
+  // Sessions start out stopped or running; the server moves them into every other status
+  status: z.enum(["stopped", "running"]).default("stopped"),
   userAgent: z.string().optional(),
   viewportWidth: z.number().default(1920),
   viewportHeight: z.number().default(1080),
   sessionData: z.any().optional(),
+  persistProfile: z.boolean().default(false),
+  clipboardSync: z.boolean().default(false),
+  cookieExpiryPolicy: cookieExpiryPolicySchema.optional(),
+  launchProfile: launchProfileSchema.optional(),
+  deviceEmulation: deviceEmulationSchema.optional(),
+  proxyId: z.string().nullable().optional(),
+  restartPolicy: restartPolicySchema.optional(),
+  idleTimeout: idleTimeoutPolicySchema.optional(),
+  dialogPolicy: dialogPolicySchema.optional(),
 });
 
 export type InsertBrowserSession = z.infer<typeof insertBrowserSessionSchema>;
 export type InsertBrowserSessionInput = InsertBrowserSession;
 
-// Cookie type
-export interface Cookie {
-  id: string;
+// Settings that can be changed while a session is running
+export const liveSessionSettingsSchema = z
+  .object({
+    url: z.string().url(),
+    userAgent: z.string(),
+    viewportWidth: z.number().int().min(200).max(4096),
+    viewportHeight: z.number().int().min(200).max(4096),
+  })
+  .partial();
+
+export type LiveSessionSettings = z.infer<typeof liveSessionSettingsSchema>;
+
+// A session as returned by the API, with its place in the start queue (1 is next)
+export type BrowserSessionWithQueue = BrowserSession & { queuePosition: number | null };
+
+// Fields the server may change on an existing session
+export type UpdateBrowserSession = Partial<Omit<BrowserSession, "id" | "userId" | "createdAt" | "updatedAt">>;
+
+// Outcome of relaunching a session during startup restore
+export interface SessionRestoreResult {
   sessionId: string;
-  name: string;
-  value: string;
-  domain?: string | null;
-  path?: string | null;
-  expires?: Date | null;
-  httpOnly: boolean;
-  secure: boolean;
-  sameSite?: "Strict" | "Lax" | "None" | null;
-  createdAt: Date;
-  updatedAt: Date;
+  userId: string;
+  status: "pending" | "restored" | "queued" | "failed";
+  reason?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+// Startup restore outcomes with how many sessions ended up in each state
+export interface SessionRestoreStatus {
+  restored: number;
+  queued: number;
+  failed: number;
+  pending: number;
+  sessions: SessionRestoreResult[];
+}
+
+// One reading of a running session's resource usage; null where it couldn't be measured
+export interface SessionMetricsSample {
+  timestamp: Date;
+  // Summed over Chromium's whole process tree
+  cpuPercent: number | null;
+  rssBytes: number | null;
+  jsHeapUsedBytes: number | null;
+  jsHeapTotalBytes: number | null;
+  domNodes: number | null;
+  // Screencast frames per second sent to viewers
+  fps: number;
 }
 
+export interface SessionMetrics {
+  sessionId: string;
+  intervalMs: number;
+  samples: SessionMetricsSample[];
+}
+
+// Viewer input, shaped like CDP's Input domain events
+// Modifier bits: Alt 1, Ctrl 2, Meta 4, Shift 8
+const inputModifiersSchema = z.number().int().min(0).max(15).default(0);
+
+export const viewerMouseEventSchema = z.object({
+  eventType: z.enum(["mousePressed", "mouseReleased", "mouseMoved", "mouseWheel"]),
+  // CSS pixels in the page's viewport
+  x: z.number(),
+  y: z.number(),
+  // The button that changed; "none" for moves and wheel events
+  button: z.enum(["none", "left", "middle", "right", "back", "forward"]).default("none"),
+  // Buttons held down: left 1, right 2, middle 4, back 8, forward 16
+  buttons: z.number().int().min(0).max(31).default(0),
+  // 2 for the second press of a double click, and so on
+  clickCount: z.number().int().min(0).default(0),
+  modifiers: inputModifiersSchema,
+  deltaX: z.number().default(0),
+  deltaY: z.number().default(0),
+});
+
+export type ViewerMouseEvent = z.infer<typeof viewerMouseEventSchema>;
+
+export const viewerTouchEventSchema = z.object({
+  eventType: z.enum(["touchStart", "touchMove", "touchEnd", "touchCancel"]),
+  // CSS pixels in the page's viewport; id tells fingers apart across moves
+  touchPoints: z.array(z.object({
+    x: z.number(),
+    y: z.number(),
+    id: z.number().int().optional(),
+  })).default([]),
+});
+
+export type ViewerTouchEvent = z.infer<typeof viewerTouchEventSchema>;
+
+export const viewerKeyEventSchema = z.object({
+  eventType: z.enum(["keyDown", "keyUp"]),
+  // KeyboardEvent.key and .code
+  key: z.string(),
+  code: z.string().default(""),
+  // What the key types; left out for shortcuts and keys that type nothing
+  text: z.string().optional(),
+  // Windows virtual key code (KeyboardEvent.keyCode)
+  keyCode: z.number().int().min(0).default(0),
+  location: z.number().int().min(0).max(3).default(0),
+  modifiers: inputModifiersSchema,
+  autoRepeat: z.boolean().default(false),
+});
+
+export type ViewerKeyEvent = z.infer<typeof viewerKeyEventSchema>;
+
+// A JavaScript dialog waiting for an answer
+export interface PendingDialog {
+  id: string;
+  tabId: string;
+  type: "alert" | "confirm" | "prompt" | "beforeunload";
+  message: string;
+  defaultValue: string;
+  openedAt: Date;
+  // When the policy's timeout action will answer it
+  expiresAt: Date;
+}
+
+export const dialogAnswerSchema = z.object({
+  accept: z.boolean(),
+  promptText: z.string().optional(),
+});
+
+export type DialogAnswer = z.infer<typeof dialogAnswerSchema>;
+
+// A native file chooser the page opened, waiting for files
+export interface PendingFileChooser {
+  id: string;
+  tabId: string;
+  multiple: boolean;
+  // The input's accept list (extensions or MIME types); empty when anything goes
+  accept: string[];
+  openedAt: Date;
+}
+
+// A tab in a running browser session
+export interface BrowserTab {
+  id: string;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+// Cookies table
+export const cookies = pgTable(
+  "cookies",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => browserSessions.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    value: varchar("value").notNull(),
+    domain: varchar("domain"),
+    path: varchar("path"),
+    expires: timestamp("expires"),
+    httpOnly: boolean("http_only").notNull().default(false),
+    secure: boolean("secure").notNull().default(false),
+    sameSite: varchar("same_site").$type<"Strict" | "Lax" | "None">(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_cookies_session_id").on(table.sessionId)],
+);
+
+// Cookie type
+export type Cookie = typeof cookies.$inferSelect;
+
 export type InsertCookie = Omit<Cookie, "id" | "createdAt" | "updatedAt">;
 
 export const insertCookieSchema = z.object({
@@ -65,3 +451,151 @@ export const insertCookieSchema = z.object({
 });
 
 export type InsertCookieInput = z.infer<typeof insertCookieSchema>;
+
+// Cookie fields as sent over the API (session comes from the URL, dates as strings)
+export const cookieRequestSchema = insertCookieSchema.omit({ sessionId: true }).extend({
+  expires: z.coerce.date().nullable().optional(),
+});
+
+export type CookieRequest = z.infer<typeof cookieRequestSchema>;
+
+// Web storage snapshots table (one row per session and origin)
+export interface IndexedDbSummary {
+  databases: { name: string; version: number }[];
+  usageBytes?: number;
+}
+
+export const webStorage = pgTable(
+  "web_storage",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => browserSessions.id, { onDelete: "cascade" }),
+    origin: varchar("origin").notNull(),
+    localStorage: jsonb("local_storage").$type<Record<string, string>>().notNull(),
+    sessionStorage: jsonb("session_storage").$type<Record<string, string>>().notNull(),
+    indexedDb: jsonb("indexed_db").$type<IndexedDbSummary>(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_web_storage_session_origin").on(table.sessionId, table.origin)],
+);
+
+// Web storage snapshot type
+export type WebStorageSnapshot = typeof webStorage.$inferSelect;
+
+export type InsertWebStorageSnapshot = Omit<WebStorageSnapshot, "id" | "createdAt" | "updatedAt">;
+
+// Cookie change history table
+export const cookieEventTypes = [
+  "added",
+  "value_changed",
+  "expiry_changed",
+  "attributes_changed",
+  "deleted",
+] as const;
+export type CookieEventType = (typeof cookieEventTypes)[number];
+
+export const cookieEvents = pgTable(
+  "cookie_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => browserSessions.id, { onDelete: "cascade" }),
+    type: varchar("type").$type<CookieEventType>().notNull(),
+    name: varchar("name").notNull(),
+    domain: varchar("domain"),
+    path: varchar("path"),
+    oldValue: varchar("old_value"),
+    newValue: varchar("new_value"),
+    oldExpires: timestamp("old_expires"),
+    newExpires: timestamp("new_expires"),
+    url: varchar("url"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_cookie_events_session_created").on(table.sessionId, table.createdAt)],
+);
+
+// Cookie event type
+export type CookieEvent = typeof cookieEvents.$inferSelect;
+
+export type InsertCookieEvent = Omit<CookieEvent, "id" | "createdAt">;
+
+// Session warnings table (things that need the user's attention)
+export type SessionWarningType = "cookie_expiring" | "keep_alive_failed" | "evicted" | "idle_timeout";
+
+export const sessionWarnings = pgTable(
+  "session_warnings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => browserSessions.id, { onDelete: "cascade" }),
+    type: varchar("type").$type<SessionWarningType>().notNull(),
+    message: varchar("message").notNull(),
+    details: jsonb("details"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_session_warnings_session_created").on(table.sessionId, table.createdAt)],
+);
+
+// Session warning type
+export type SessionWarning = typeof sessionWarnings.$inferSelect;
+
+export type InsertSessionWarning = Omit<SessionWarning, "id" | "createdAt">;
+
+// Session runs table (one row per time the browser was up)
+export const sessionRunEndReasons = ["stopped", "hibernated", "crashed", "evicted", "idle", "shutdown", "interrupted"] as const;
+export type SessionRunEndReason = (typeof sessionRunEndReasons)[number];
+
+export const sessionRuns = pgTable(
+  "session_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => browserSessions.id, { onDelete: "cascade" }),
+    startedAt: timestamp("started_at").notNull().defaultNow(),
+    // Unset while the run is still going
+    endedAt: timestamp("ended_at"),
+    endReason: varchar("end_reason").$type<SessionRunEndReason>(),
+  },
+  (table) => [index("IDX_session_runs_session_started").on(table.sessionId, table.startedAt)],
+);
+
+// Session run type
+export type SessionRun = typeof sessionRuns.$inferSelect;
+
+export type InsertSessionRun = Omit<SessionRun, "id">;
+
+// Session downloads table (files the remote page downloaded)
+export const downloadStates = ["in_progress", "completed", "canceled", "interrupted"] as const;
+export type DownloadState = (typeof downloadStates)[number];
+
+export const sessionDownloads = pgTable(
+  "session_downloads",
+  {
+    // Chromium's download GUID, which is also the file's name on disk
+    id: varchar("id").primaryKey(),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => browserSessions.id, { onDelete: "cascade" }),
+    url: varchar("url").notNull(),
+    // Name the page suggested, used when the user saves the file
+    fileName: varchar("file_name").notNull(),
+    state: varchar("state").$type<DownloadState>().notNull().default("in_progress"),
+    receivedBytes: bigint("received_bytes", { mode: "number" }).notNull().default(0),
+    // Unset when the server didn't send a length
+    totalBytes: bigint("total_bytes", { mode: "number" }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [index("IDX_session_downloads_session_created").on(table.sessionId, table.createdAt)],
+);
+
+// Session download type
+export type SessionDownload = typeof sessionDownloads.$inferSelect;
+
+export type InsertSessionDownload = Omit<SessionDownload, "createdAt" | "completedAt">;